@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { UploadedImage, ChatMessage, Slide, AnalysisProgress, ExportFormat, VoiceSettings, ApiKey, GithubUser, AppSettings, SyncStatus, LogEntry } from './types';
+import { UploadedImage, ChatMessage, Slide, AnalysisProgress, AnalysisImageStatus, ExportFormat, VoiceSettings, ApiKey, GithubUser, AppSettings, SyncStatus, LogEntry, ImageGenerationParams, VideoJob, VaultState, EncryptedPayload } from './types';
 import * as gemini from './services/geminiService';
 import * as location from './services/locationService';
 import * as github from './services/githubService';
 import * as imageSearchService from './services/imageSearchService';
-import { parseSlidesFromJson } from './utils/planParser';
+import { runWithConcurrency } from './utils/concurrency';
+import { loadStoredFixture } from './services/trafficRecorder';
 import { exportToPdf, exportToPptx, exportToHtml } from './services/exportService';
 import { LoggerProvider, useLogger } from './context/LoggerContext'; 
 import logger from './services/logger';
@@ -20,24 +21,29 @@ import ApiKeyModal from './components/ApiKeyModal';
 import SettingsPanel from './components/SettingsPanel';
 import ImageSearchModal from './components/ImageSearchModal';
 import VideoExportModal from './components/VideoExportModal';
-import VideoGenerationOverlay from './components/VideoGenerationOverlay';
+import VideoJobsPanel, { useVideoJobs } from './components/VideoJobsPanel';
+import * as videoJobs from './services/videoJobs';
+import * as vault from './services/secretVault';
 import GitHubAuthModal from './components/GitHubAuthModal';
 import SplashScreen from './components/SplashScreen';
 import ErrorState from './components/ErrorState';
 import Loader from './components/Loader';
 import ImagePickerModal from './components/ImagePickerModal';
+import ImageGenerationModal from './components/ImageGenerationModal';
+import ImageEditModal from './components/ImageEditModal';
+import { getImageCounterpart } from './utils/imageVersions';
 import QuotaErrorModal from './components/QuotaErrorModal';
 import ConfigErrorModal from './components/ConfigErrorModal';
 import StatusBar from './components/StatusBar';
 import LogViewerModal from './components/LogViewerModal';
 import ErrorDetailModal from './components/ErrorDetailModal';
+import VaultModal from './components/VaultModal';
 
 
 type AppState = 'concept' | 'generating_plan' | 'upload' | 'analyzing' | 'chat' | 'presentation' | 'error';
-type VideoGenState = 'idle' | 'generating' | 'success' | 'error';
 type AuthState = 'unauthenticated' | 'authenticated' | null;
 type InitState = 'initializing' | 'ready';
-type SettingsTab = 'api' | 'voice' | 'integrations' | 'account';
+type SettingsTab = 'api' | 'usage' | 'prompts' | 'voice' | 'integrations' | 'developer' | 'account';
 
 interface AnalysisCursor {
     imagesToAnalyze: UploadedImage[];
@@ -45,6 +51,8 @@ interface AnalysisCursor {
     status: 'idle' | 'running' | 'paused' | 'done';
 }
 
+const NO_ANALYZED_IMAGES_MESSAGE = 'Ни одно изображение не удалось проанализировать: все кадры были отклонены фильтром безопасности модели.';
+
 const DEFAULT_VOICE_SETTINGS: VoiceSettings = { 
     voices: [{ voiceURI: null, rate: 1, pitch: 1 }], 
     isPodcastMode: false,
@@ -57,6 +65,42 @@ const DEFAULT_SETTINGS: AppSettings = {
     pexelsApiKey: null,
     geminiModel: 'gemini-2.5-flash',
     geminiEndpoint: 'generativelanguage.googleapis.com/v1beta',
+    llmProvider: 'gemini',
+    llmBaseUrl: '',
+    llmModel: '',
+    llmApiKey: null,
+    fakeFailureMode: 'none',
+    keyStrategy: 'pinned_first',
+    promptOverrides: { global: {}, projects: {} },
+    activeProject: '',
+    analysisMode: 'sequential',
+    analysisBatchSize: 4,
+    analysisConcurrency: 3,
+    imagePreprocessing: { enabled: true, maxLongEdge: 1536, format: 'image/jpeg', quality: 0.85 },
+    modelRoutes: {
+        plan: { model: '', fallbackModel: '' },
+        analysis: { model: '', fallbackModel: '' },
+        storyboard: { model: '', fallbackModel: '' },
+        chat: { model: '', fallbackModel: '' },
+        music: { model: 'gemini-2.5-flash-lite', fallbackModel: 'gemini-2.5-flash' },
+        ssml: { model: 'gemini-2.5-flash-lite', fallbackModel: 'gemini-2.5-flash' },
+        image: { model: 'imagen-4.0-generate-001', fallbackModel: 'imagen-3.0-generate-002' },
+        imageEdit: { model: 'gemini-2.5-flash-image', fallbackModel: 'gemini-2.0-flash-preview-image-generation' },
+        video: { model: 'veo-2.0-generate-001', fallbackModel: '' },
+    },
+    // Free-tier limits; raise them for billed projects.
+    rateLimits: {
+        'gemini-2.5-flash': { requestsPerMinute: 10, tokensPerMinute: 250000 },
+        'gemini-2.5-pro': { requestsPerMinute: 5, tokensPerMinute: 250000 },
+        'gemini-2.5-flash-lite': { requestsPerMinute: 15, tokensPerMinute: 250000 },
+        'gemini-2.0-flash': { requestsPerMinute: 15, tokensPerMinute: 1000000 },
+    },
+    modelPrices: {
+        'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+        'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+        'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+        'gemini-2.0-flash': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    },
 };
 
 const AppContent: React.FC = () => {
@@ -73,6 +117,7 @@ const AppContent: React.FC = () => {
     const [showSplash, setShowSplash] = useState(true);
     const [appState, setAppState] = useState<AppState>('concept');
     const [error, setError] = useState<string | null>(null);
+    const [errorCause, setErrorCause] = useState<unknown>(null); // The thrown error, for type-specific explanations
     const [isApiKeyMissing, setIsApiKeyMissing] = useState(false);
     const [isQuotaErrorModalOpen, setIsQuotaErrorModalOpen] = useState(false);
     const [isConfigErrorModalOpen, setIsConfigErrorModalOpen] = useState(false);
@@ -84,6 +129,7 @@ const AppContent: React.FC = () => {
     
     const [presentationConcept, setPresentationConcept] = useState<string>('');
     const [initialStoryPlan, setInitialStoryPlan] = useState<string>('');
+    const [isPlanStreaming, setIsPlanStreaming] = useState(false);
 
     const [allUploadedImages, setAllUploadedImages] = useState<UploadedImage[]>([]);
     const allUploadedImagesRef = useRef<UploadedImage[]>([]);
@@ -93,23 +139,28 @@ const AppContent: React.FC = () => {
     
     const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress>({ currentIndex: 0, total: 0, currentAction: '', matrixText: '', isSynthesizing: false });
     const [analysisCursor, setAnalysisCursor] = useState<AnalysisCursor>({ imagesToAnalyze: [], currentIndex: 0, status: 'idle' });
+    // Frames refused by a content filter in this run; kept out of the cursor so skipping does not re-run the analysis effect.
+    const skippedImageIdsRef = useRef<Set<string>>(new Set());
     const [evolvingStorySummary, setEvolvingStorySummary] = useState<string>('');
 
     const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
     const [isTyping, setIsTyping] = useState(false);
+    const [streamingSlides, setStreamingSlides] = useState<Slide[]>([]);
     const [slides, setSlides] = useState<Slide[]>([]);
 
     const [isExporting, setIsExporting] = useState(false);
     
     const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
     const [isImagePickerModalOpen, setIsImagePickerModalOpen] = useState(false);
+    const [imageGenerationParams, setImageGenerationParams] = useState<ImageGenerationParams | null>(null);
+    const [imageEditSource, setImageEditSource] = useState<UploadedImage | null>(null);
 
     const [searchQuery, setSearchQuery] = useState('');
     const [activeSlideForImageAction, setActiveSlideForImageAction] = useState<number | null>(null);
     
     const [isVideoModalOpen, setIsVideoModalOpen] = useState(false);
-    const [videoGenState, setVideoGenState] = useState<VideoGenState>('idle');
-    const [videoProgress, setVideoProgress] = useState({ message: '', url: null as string | null, error: null as string | null });
+    const [isVideoJobsOpen, setIsVideoJobsOpen] = useState(false);
+    const activeVideoJobs = useVideoJobs().filter(job => job.status === 'running' || job.status === 'downloading').length;
     const [musicSuggestions, setMusicSuggestions] = useState<string[]>([]);
 
     const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
@@ -124,41 +175,100 @@ const AppContent: React.FC = () => {
     const [gistId, setGistId] = useState<string | null>(null);
     const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
     const isInitialMount = useRef(true);
+
+    const [vaultState, setVaultState] = useState<VaultState>(() => vault.isVaultEnabled() ? 'locked' : 'disabled');
+    const [vaultPayload, setVaultPayload] = useState<EncryptedPayload | undefined>(undefined);
+    const [isVaultSetupOpen, setIsVaultSetupOpen] = useState(false);
+    const unlockResolverRef = useRef<(() => void) | null>(null);
     const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     const [isLogViewerOpen, setIsLogViewerOpen] = useState(false);
 
+    // Only one AI operation runs at a time; a fresh controller replaces the one aborted by a cancel.
+    const operationAbortRef = useRef<AbortController | null>(null);
+    const getOperationSignal = (): AbortSignal => {
+        if (!operationAbortRef.current || operationAbortRef.current.signal.aborted) {
+            operationAbortRef.current = new AbortController();
+        }
+        return operationAbortRef.current.signal;
+    };
+    const handleCancelOperation = useCallback(() => {
+        logger.logInfo('Cancelling the current AI operation...');
+        operationAbortRef.current?.abort();
+        operationAbortRef.current = null;
+    }, []);
+
     const openSettingsPanel = (tab: SettingsTab = 'api') => {
         setSettingsInitialTab(tab);
         setIsSettingsOpen(true);
     };
 
-    const loadLocalSettings = useCallback((): AppSettings => {
+    /**
+     * Shows the unlock screen and resolves once the vault is unlocked.
+     * @param payload Sealed data to check the passphrase against when this browser has no vault yet.
+     */
+    const requestUnlock = useCallback((payload?: EncryptedPayload) => new Promise<void>(resolve => {
+        unlockResolverRef.current = resolve;
+        setVaultPayload(payload);
+        setVaultState('locked');
+    }), []);
+
+    // Settings from localStorage or the Gist may carry encrypted secrets, possibly from another device.
+    const openStoredSettings = useCallback(async (stored: AppSettings): Promise<AppSettings> => {
+        if (stored.sealedSecrets && !vault.isVaultUnlocked()) await requestUnlock(stored.sealedSecrets);
+        return vault.openSettings(stored);
+    }, [requestUnlock]);
+
+    const loadLocalSettings = useCallback(async (): Promise<AppSettings> => {
         const localSettings = { ...DEFAULT_SETTINGS };
         try {
             const stored = localStorage.getItem('appSettings');
             if(stored) {
                 const parsed = JSON.parse(stored);
                 // Merge parsed settings with defaults to ensure all keys are present
-                return { ...DEFAULT_SETTINGS, ...parsed };
+                return await openStoredSettings({ ...DEFAULT_SETTINGS, ...parsed });
             }
         } catch (e) {
             console.error("Failed to parse local settings:", e);
         }
         return localSettings;
-    }, []);
+    }, [openStoredSettings]);
 
     const handleSettingsChange = useCallback((newSettings: AppSettings) => {
         setSettings(newSettings);
     }, []);
-    
+
+    // Only a retry interrupted by exhausted keys resumes on its own; other errors wait for the user.
+    const quotaRetryRef = useRef<(() => Promise<void> | void) | null>(null);
     useEffect(() => {
-        try {
-            localStorage.setItem('appSettings', JSON.stringify(settings));
-        } catch (e) {
-            console.error("Failed to save settings to localStorage:", e);
+        quotaRetryRef.current = failedKeys.length > 0 && !isConfigErrorModalOpen && appState !== 'error' ? retryAction : null;
+    }, [retryAction, failedKeys, isConfigErrorModalOpen, appState]);
+
+    useEffect(() => gemini.onKeyRecovered(keys => {
+        handleSettingsChange({ ...settingsRef.current, apiKeys: keys });
+        // Only refresh an active quota failure; filling an empty list would resurrect the modal and its retry.
+        setFailedKeys(prev => prev.length > 0 ? keys : prev);
+        const action = quotaRetryRef.current;
+        if (action) {
+            logger.logInfo('A key has recovered. Resuming the interrupted operation...');
+            quotaRetryRef.current = null;
+            setIsQuotaErrorModalOpen(false);
+            setRetryAction(null);
+            action();
         }
-    }, [settings]);
+    }), [handleSettingsChange]);
+    
+    useEffect(() => {
+        // Before startup the state holds defaults, and a locked vault cannot seal: either would clobber the stored copy.
+        if (initState !== 'ready' || vaultState === 'locked') return;
+        let isStale = false;
+        vault.sealSettings(settings)
+            .then(sealed => {
+                if (!isStale) localStorage.setItem('appSettings', JSON.stringify(sealed));
+            })
+            .catch(e => console.error("Failed to save settings to localStorage:", e));
+        return () => { isStale = true; };
+    }, [settings, initState, vaultState]);
 
     const handleLogout = useCallback(() => {
         localStorage.removeItem('githubPat');
@@ -167,14 +277,18 @@ const AppContent: React.FC = () => {
         setGistId(null);
         setAuthState('unauthenticated');
         setShowSplash(true); 
-        setSettings(loadLocalSettings());
+        loadLocalSettings().then(setSettings);
     }, [loadLocalSettings]);
     
     useEffect(() => {
         const startup = async () => {
             logger.logInfo('Application initializing...');
             let loadedSettings: AppSettings;
-            const pat = localStorage.getItem('githubPat');
+            if (vault.isVaultEnabled()) await requestUnlock();
+            const pat = await vault.readSecret('githubPat').catch(e => {
+                logger.logError(`Could not decrypt the stored GitHub token: ${e instanceof Error ? e.message : String(e)}`);
+                return null;
+            });
 
             if (pat) {
                 try {
@@ -187,12 +301,12 @@ const AppContent: React.FC = () => {
                     logger.logInfo(`Authenticated as ${user.login}. Fetching settings from Gist...`);
                     const result = await github.getSettingsFromGist(pat);
                     if (result) {
-                        loadedSettings = { ...DEFAULT_SETTINGS, ...result.settings };
+                        loadedSettings = await openStoredSettings({ ...DEFAULT_SETTINGS, ...result.settings });
                         setGistId(result.gistId);
                         setSyncStatus('success');
                         logger.logSuccess('Settings loaded from GitHub Gist.');
                     } else {
-                        loadedSettings = loadLocalSettings();
+                        loadedSettings = await loadLocalSettings();
                         setSyncStatus('idle');
                         logger.logInfo('No settings Gist found, using local settings.');
                     }
@@ -204,14 +318,14 @@ const AppContent: React.FC = () => {
                         handleLogout();
                         return; // Exit if logout is forced
                     } else {
-                        loadedSettings = loadLocalSettings();
+                        loadedSettings = await loadLocalSettings();
                         setAuthState('authenticated');
                         setSyncStatus('error');
                         logger.logError('Failed to fetch settings from Gist, using local settings.');
                     }
                 }
             } else {
-                loadedSettings = loadLocalSettings();
+                loadedSettings = await loadLocalSettings();
                 setAuthState('unauthenticated');
                 logger.logInfo('No GitHub token found. Awaiting user login.');
             }
@@ -219,9 +333,14 @@ const AppContent: React.FC = () => {
             // --- FIX: Ensure health check runs correctly on startup ---
             // 1. Initialize the gemini service with the loaded keys.
             gemini.initializeApiKeys(loadedSettings.apiKeys);
+            gemini.setKeyStrategy(loadedSettings.keyStrategy);
+            gemini.setRateLimits(loadedSettings.rateLimits);
+            await gemini.loadKeyUsageFromLedger();
+            await loadStoredFixture();
             
             // 2. Run the health check for all keys and wait for it to complete.
             await gemini.healthCheckAllKeys();
+            videoJobs.resumeVideoJobs();
             
             // 3. Get the updated, verified key status back from the service.
             const verifiedKeys = gemini.getKeyPoolState();
@@ -239,13 +358,14 @@ const AppContent: React.FC = () => {
             setInitState('ready');
         };
         startup();
-    }, [loadLocalSettings, handleLogout]);
+    }, [loadLocalSettings, handleLogout, requestUnlock, openStoredSettings]);
     
     useEffect(() => {
         if (isInitialMount.current || authState !== 'authenticated' || !githubPat) {
             isInitialMount.current = false;
             return;
         }
+        if (vaultState === 'locked') return;
 
         if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
 
@@ -253,7 +373,7 @@ const AppContent: React.FC = () => {
         syncTimeoutRef.current = setTimeout(async () => {
             try {
                 logger.logInfo('Auto-syncing settings to GitHub Gist...');
-                const newGistId = await github.saveSettings(githubPat, settingsRef.current, gistId);
+                const newGistId = await github.saveSettings(githubPat, await vault.sealSettings(settingsRef.current), gistId);
                 if (newGistId !== gistId) setGistId(newGistId);
                 setSyncStatus('success');
                 logger.logSuccess('Settings synchronized successfully.');
@@ -265,13 +385,16 @@ const AppContent: React.FC = () => {
         }, 2000);
 
         return () => { if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current); };
-    }, [settings, githubPat, gistId, authState]);
+    }, [settings, githubPat, gistId, authState, vaultState]);
 
     useEffect(() => {
         gemini.initializeApiKeys(settings.apiKeys);
+        gemini.setKeyStrategy(settings.keyStrategy);
+        gemini.setRateLimits(settings.rateLimits);
         imageSearchService.initializePexels(settings.pexelsApiKey);
         
-        const hasGeminiKeys = settings.apiKeys.length > 0;
+        // Other providers do not use the Gemini key pool for the director prompts.
+        const hasGeminiKeys = settings.apiKeys.length > 0 || settings.llmProvider !== 'gemini';
         if (!hasGeminiKeys && authState === 'authenticated' && appState !== 'concept' && appState !== 'error') {
              setIsApiKeyMissing(true);
         } else {
@@ -297,10 +420,15 @@ const AppContent: React.FC = () => {
             }
         };
         setupVoice();
-    }, [settings.apiKeys, settings.pexelsApiKey, settings.voiceSettings, handleSettingsChange, authState, appState]);
+    }, [settings.apiKeys, settings.pexelsApiKey, settings.voiceSettings, settings.llmProvider, handleSettingsChange, authState, appState]);
 
     const handleError = (e: any, onRetry: (() => Promise<void> | void) | null = null) => {
         const message = e instanceof Error ? e.message : String(e);
+
+        if (e instanceof gemini.CancelledError) {
+            logger.logInfo('Operation cancelled by user.');
+            return;
+        }
         
         if (e instanceof gemini.ConfigError) {
             setConfigErrorDetails({ model: e.model, endpoint: e.endpoint });
@@ -312,10 +440,12 @@ const AppContent: React.FC = () => {
         if (e instanceof gemini.AllKeysFailedError) {
             const updatedKeysFromError = e.failedKeys;
     
-            handleSettingsChange({
-                ...settingsRef.current,
-                apiKeys: updatedKeysFromError
-            });
+            if (!e.simulated) {
+                handleSettingsChange({
+                    ...settingsRef.current,
+                    apiKeys: updatedKeysFromError
+                });
+            }
             
             setFailedKeys(updatedKeysFromError);
             setIsQuotaErrorModalOpen(true);
@@ -324,6 +454,7 @@ const AppContent: React.FC = () => {
         }
         
         setError(message);
+        setErrorCause(e);
         setAppState('error');
         if (onRetry) setRetryAction(() => onRetry);
     };
@@ -332,19 +463,19 @@ const AppContent: React.FC = () => {
         try {
             logger.logInfo('Attempting GitHub login...');
             const user = await github.getUser(pat);
-            localStorage.setItem('githubPat', pat);
+            await vault.writeSecret('githubPat', pat);
             setGithubPat(pat);
             setGithubUser(user);
 
             setSyncStatus('syncing');
             const result = await github.getSettingsFromGist(pat);
             if (result) {
-                setSettings({ ...DEFAULT_SETTINGS, ...result.settings });
+                setSettings(await openStoredSettings({ ...DEFAULT_SETTINGS, ...result.settings }));
                 setGistId(result.gistId);
                 setSyncStatus('success');
                  logger.logSuccess(`Login successful. Settings loaded for ${user.login}.`);
             } else {
-                const localSettings = loadLocalSettings();
+                const localSettings = await loadLocalSettings();
                 setSettings(localSettings);
                 setSyncStatus('idle'); 
                  logger.logSuccess(`Login successful. Using local settings for ${user.login}.`);
@@ -360,7 +491,42 @@ const AppContent: React.FC = () => {
             localStorage.removeItem('githubPat');
             return false;
         }
-    }, [loadLocalSettings]);
+    }, [loadLocalSettings, openStoredSettings]);
+
+    const handleUnlockVault = async (passphrase: string) => {
+        await vault.unlockVault(passphrase, vaultPayload);
+        setVaultPayload(undefined);
+        setVaultState('unlocked');
+        unlockResolverRef.current?.();
+        unlockResolverRef.current = null;
+    };
+
+    const handleCreateVault = async (passphrase: string) => {
+        await vault.createVault(passphrase);
+        if (githubPat) await vault.writeSecret('githubPat', githubPat);
+        setIsVaultSetupOpen(false);
+        setVaultState('unlocked'); // Re-saves the settings, now sealed
+    };
+
+    const handleVaultClick = () => {
+        if (vaultState === 'disabled') {
+            setIsVaultSetupOpen(true);
+        } else if (vaultState === 'unlocked') {
+            vault.lockVault();
+            setVaultState('locked');
+        }
+    };
+
+    const handleDisableVault = async () => {
+        if (!window.confirm('Отключить шифрование? Ключи API и токены снова будут храниться открытым текстом.')) return;
+        vault.removeVault();
+        if (githubPat) await vault.writeSecret('githubPat', githubPat);
+        setVaultState('disabled'); // Re-saves the settings in plain text
+    };
+
+    const vaultModal = vaultState === 'locked'
+        ? <VaultModal mode="unlock" onSubmit={handleUnlockVault} />
+        : <VaultModal mode={isVaultSetupOpen ? 'create' : null} onSubmit={handleCreateVault} onClose={() => setIsVaultSetupOpen(false)} />;
     
     const resetState = useCallback(() => {
         logger.logInfo('Resetting application state.');
@@ -382,12 +548,25 @@ const AppContent: React.FC = () => {
     const handleConceptSubmit = async (concept: string) => {
         setPresentationConcept(concept);
         setAppState('generating_plan');
+        let hasStreamStarted = false;
         try {
-            const response = await gemini.createInitialPlan(concept, settingsRef.current);
+            // Switch to the upload screen on the first chunk so the plan renders as it is written.
+            const response = await gemini.createInitialPlan(concept, settingsRef.current, (partialPlan) => {
+                setInitialStoryPlan(partialPlan);
+                if (!hasStreamStarted) {
+                    hasStreamStarted = true;
+                    setIsPlanStreaming(true);
+                    setAppState('upload');
+                }
+            }, getOperationSignal());
             setInitialStoryPlan(response.text);
             setAppState('upload');
         } catch (e) {
+            // A plan cancelled before any text arrived returns the user to the concept input.
+            if (e instanceof gemini.CancelledError && !hasStreamStarted) setAppState('concept');
             handleError(e, () => handleConceptSubmit(concept));
+        } finally {
+            setIsPlanStreaming(false);
         }
     };
     
@@ -406,9 +585,11 @@ const AppContent: React.FC = () => {
     };
 
     const startAnalysis = (imagesToAnalyze: UploadedImage[]) => {
-        logger.logInfo(`Starting analysis of ${imagesToAnalyze.length} images.`);
+        logger.logInfo(`Starting ${settingsRef.current.analysisMode} analysis of ${imagesToAnalyze.length} images.`);
+        skippedImageIdsRef.current = new Set();
         setAnalysisCursor({ imagesToAnalyze, currentIndex: 0, status: 'running' });
-        setAnalysisProgress({ total: imagesToAnalyze.length + 1, currentIndex: 0, currentAction: 'Начинаю анализ...', matrixText: '', isSynthesizing: false });
+        const imageStatuses = Object.fromEntries(imagesToAnalyze.map(img => [img.id, 'queued' as AnalysisImageStatus]));
+        setAnalysisProgress({ total: imagesToAnalyze.length + 1, currentIndex: 0, currentAction: 'Начинаю анализ...', matrixText: '', isSynthesizing: false, imageStatuses });
         setEvolvingStorySummary('');
     };
 
@@ -420,15 +601,138 @@ const AppContent: React.FC = () => {
     useEffect(() => {
         if (analysisCursor.status !== 'running' || appState !== 'analyzing') return;
 
+        const setImageStatus = (ids: string[], status: AnalysisImageStatus) => {
+            setAnalysisProgress(prev => ({
+                ...prev,
+                imageStatuses: { ...prev.imageStatuses, ...Object.fromEntries(ids.map(id => [id, status])) },
+            }));
+        };
+
+        const applyDescriptions = (descriptions: Record<string, string>, cachedIds: string[]) => {
+            setAllUploadedImages(prev => prev.map(img => img.id in descriptions
+                ? { ...img, description: descriptions[img.id], analysisCached: cachedIds.includes(img.id) }
+                : img));
+        };
+
+        // A frame the content filter refuses is left out of the story instead of stopping the whole run.
+        const skipBlockedImage = (image: UploadedImage, e: InstanceType<typeof gemini.ContentBlockedError>) => {
+            skippedImageIdsRef.current.add(image.id);
+            setImageStatus([image.id], 'skipped');
+            logger.logWarning(`Skipping image "${image.file.name}": ${e.message}`);
+        };
+
         const processNextImage = async () => {
             const currentImage = analysisCursor.imagesToAnalyze[analysisCursor.currentIndex];
             const previousImages = allUploadedImagesRef.current.filter(img => img.description);
             try {
-                setAnalysisProgress(prev => ({ ...prev, currentAction: `Анализирую изображение ${prev.currentIndex + 1}...`, currentIndex: prev.currentIndex + 1 }));
-                const { imageDescription, updatedStory } = await gemini.analyzeNextFrame(currentImage, previousImages, evolvingStorySummary, settingsRef.current);
-                setAllUploadedImages(prev => prev.map(img => img.id === currentImage.id ? { ...img, description: imageDescription } : img));
+                // Absolute index, so resuming a paused frame does not advance the progress twice.
+                setAnalysisProgress(prev => ({ ...prev, currentAction: `Анализирую изображение ${analysisCursor.currentIndex + 1}...`, currentIndex: analysisCursor.currentIndex + 1 }));
+                setImageStatus([currentImage.id], 'running');
+                const { imageDescription, updatedStory, cached } = await gemini.analyzeNextFrame(currentImage, previousImages, evolvingStorySummary, settingsRef.current, getOperationSignal());
+                applyDescriptions({ [currentImage.id]: imageDescription }, cached ? [currentImage.id] : []);
+                setImageStatus([currentImage.id], 'done');
                 setEvolvingStorySummary(updatedStory);
                 setAnalysisCursor(prev => ({ ...prev, currentIndex: prev.currentIndex + 1 }));
+            } catch (e) {
+                if (e instanceof gemini.ContentBlockedError) {
+                    skipBlockedImage(currentImage, e);
+                    setAnalysisCursor(prev => ({ ...prev, currentIndex: prev.currentIndex + 1 }));
+                    return;
+                }
+                setImageStatus([currentImage.id], 'failed');
+                setAnalysisCursor(prev => ({ ...prev, status: 'paused' }));
+                handleError(e, resumeAnalysis);
+            }
+        };
+
+        // The filter does not say which frame of a batch it refused, so the batch is described frame by frame.
+        const analyzeBatchOneByOne = async (batch: UploadedImage[], previousImages: UploadedImage[]): Promise<string> => {
+            let story = evolvingStorySummary;
+            let previous = previousImages;
+            for (const image of batch) {
+                try {
+                    const { imageDescription, updatedStory, cached } = await gemini.analyzeNextFrame(image, previous, story, settingsRef.current, getOperationSignal());
+                    applyDescriptions({ [image.id]: imageDescription }, cached ? [image.id] : []);
+                    setImageStatus([image.id], 'done');
+                    story = updatedStory;
+                    previous = [...previous, { ...image, description: imageDescription }];
+                } catch (e) {
+                    if (!(e instanceof gemini.ContentBlockedError)) throw e;
+                    skipBlockedImage(image, e);
+                }
+            }
+            return story;
+        };
+
+        const processNextBatch = async () => {
+            const { currentIndex, imagesToAnalyze } = analysisCursor;
+            const batch = imagesToAnalyze.slice(currentIndex, currentIndex + Math.max(1, settingsRef.current.analysisBatchSize));
+            const batchIds = batch.map(img => img.id);
+            const previousImages = allUploadedImagesRef.current.filter(img => img.description);
+            try {
+                setAnalysisProgress(prev => ({ ...prev, currentAction: `Анализирую изображения ${currentIndex + 1}–${currentIndex + batch.length}...` }));
+                setImageStatus(batchIds, 'running');
+                let updatedStory: string;
+                try {
+                    const result = await gemini.analyzeFrameBatch(batch, previousImages, evolvingStorySummary, settingsRef.current, getOperationSignal());
+                    applyDescriptions(result.descriptions, result.cachedIds);
+                    setImageStatus(batchIds, 'done');
+                    updatedStory = result.updatedStory;
+                } catch (e) {
+                    if (!(e instanceof gemini.ContentBlockedError)) throw e;
+                    logger.logWarning(`Batch ${currentIndex + 1}–${currentIndex + batch.length} was blocked by the content filter. Analyzing its images one by one.`);
+                    updatedStory = await analyzeBatchOneByOne(batch, previousImages);
+                }
+                setAnalysisProgress(prev => ({ ...prev, currentIndex: currentIndex + batch.length }));
+                setEvolvingStorySummary(updatedStory);
+                setAnalysisCursor(prev => ({ ...prev, currentIndex: prev.currentIndex + batch.length }));
+            } catch (e) {
+                setImageStatus(batchIds.filter(id => !allUploadedImagesRef.current.find(img => img.id === id)?.description), 'failed');
+                setAnalysisCursor(prev => ({ ...prev, status: 'paused' }));
+                handleError(e, resumeAnalysis);
+            }
+        };
+
+        // Frames are described independently, so a resumed run only picks up the ones still missing.
+        const processInParallel = async () => {
+            const signal = getOperationSignal();
+            // Collected locally: state updates from the workers may not have rendered yet when the merge starts.
+            const descriptions = new Map(allUploadedImagesRef.current.filter(img => img.description).map((img): [string, string] => [img.id, img.description!]));
+            // Blocked frames would only be blocked again on resume.
+            const pending = analysisCursor.imagesToAnalyze.filter(img => !descriptions.has(img.id) && !skippedImageIdsRef.current.has(img.id));
+            let completed = analysisCursor.imagesToAnalyze.length - pending.length;
+            let firstError: unknown = null;
+            setAnalysisProgress(prev => ({ ...prev, currentIndex: completed, currentAction: `Анализирую изображения параллельно (${settingsRef.current.analysisConcurrency} одновременно)...` }));
+
+            await runWithConcurrency(pending, settingsRef.current.analysisConcurrency, async (image: UploadedImage) => {
+                if (firstError) return; // Leave the rest queued after the first failure.
+                setImageStatus([image.id], 'running');
+                try {
+                    const { imageDescription, cached } = await gemini.analyzeNextFrame(image, [], '', settingsRef.current, signal);
+                    descriptions.set(image.id, imageDescription);
+                    applyDescriptions({ [image.id]: imageDescription }, cached ? [image.id] : []);
+                    setImageStatus([image.id], 'done');
+                    completed++;
+                    setAnalysisProgress(prev => ({ ...prev, currentIndex: completed }));
+                } catch (e) {
+                    if (e instanceof gemini.ContentBlockedError) {
+                        skipBlockedImage(image, e);
+                        completed++;
+                        return;
+                    }
+                    setImageStatus([image.id], 'failed');
+                    firstError = firstError ?? e;
+                }
+            });
+
+            try {
+                if (firstError) throw firstError;
+                setAnalysisProgress(prev => ({ ...prev, currentAction: 'Собираю историю из описаний кадров...' }));
+                const analyzedImages = analysisCursor.imagesToAnalyze.filter(img => descriptions.has(img.id)).map(img => ({ ...img, description: descriptions.get(img.id) }));
+                if (analyzedImages.length === 0) throw new Error(NO_ANALYZED_IMAGES_MESSAGE);
+                const story = await gemini.mergeStoryFromDescriptions(analyzedImages, settingsRef.current, signal);
+                setEvolvingStorySummary(story);
+                setAnalysisCursor(prev => ({ ...prev, currentIndex: prev.imagesToAnalyze.length }));
             } catch (e) {
                 setAnalysisCursor(prev => ({ ...prev, status: 'paused' }));
                 handleError(e, resumeAnalysis);
@@ -443,9 +747,11 @@ const AppContent: React.FC = () => {
             try {
                 setAnalysisProgress(prev => ({ ...prev, isSynthesizing: true, currentAction: 'Синтезирую финальный сценарий...', currentIndex: prev.total }));
                 const analyzedImages = allUploadedImagesRef.current.filter(img => img.description);
-                const response = await gemini.generateStoryboard(evolvingStorySummary, analyzedImages, settingsRef.current);
-                const parsedSlides = parseSlidesFromJson(response.text);
-                setSlides(parsedSlides);
+                if (analyzedImages.length === 0) {
+                    throw new Error(NO_ANALYZED_IMAGES_MESSAGE);
+                }
+                const response = await gemini.generateStoryboard(evolvingStorySummary, analyzedImages, settingsRef.current, getOperationSignal());
+                setSlides(response.slides);
                 setAppState('chat');
                 setAnalysisCursor({ imagesToAnalyze: [], currentIndex: 0, status: 'done' });
             } catch (e) {
@@ -456,6 +762,10 @@ const AppContent: React.FC = () => {
 
         if (analysisCursor.currentIndex >= analysisCursor.imagesToAnalyze.length) {
             synthesizeFinalStory();
+        } else if (settingsRef.current.analysisMode === 'parallel') {
+            processInParallel();
+        } else if (settingsRef.current.analysisMode === 'batched') {
+            processNextBatch();
         } else {
             processNextImage();
         }
@@ -465,17 +775,18 @@ const AppContent: React.FC = () => {
         const userMessage: ChatMessage = { role: 'user', parts: [{ text: message }] };
         setChatMessages(prev => [...prev, userMessage]);
         setIsTyping(true);
+        setStreamingSlides([]);
         try {
-            const response = await gemini.continueChat([...chatMessages, userMessage], allUploadedImages, slides, settingsRef.current);
-            const modelMessage: ChatMessage = { role: 'model', parts: [{ text: response.text }] };
-            const updatedSlides = parseSlidesFromJson(response.text);
-            setSlides(updatedSlides);
+            const response = await gemini.continueChat([...chatMessages, userMessage], allUploadedImages, slides, settingsRef.current, setStreamingSlides, getOperationSignal());
+            const modelMessage: ChatMessage = { role: 'model', parts: [{ text: response.reply }], suggestions: response.suggestions, operations: response.outcomes };
+            setSlides(response.slides);
             setChatMessages(prev => [...prev, modelMessage]);
         } catch (e) {
             handleError(e, () => handleSendMessage(message));
             setChatMessages(prev => prev.slice(0, -1));
         } finally {
             setIsTyping(false);
+            setStreamingSlides([]);
         }
     };
 
@@ -501,27 +812,45 @@ const AppContent: React.FC = () => {
         setIsSearchModalOpen(true);
     };
 
-    const handleGenerateImage = async (prompt: string, slideIndex: number) => {
+    const handleGenerateImage = (prompt: string, slideIndex: number) => {
+        setActiveSlideForImageAction(slideIndex);
+        setImageGenerationParams({ ...gemini.DEFAULT_IMAGE_GENERATION, prompt });
+    };
+
+    const handleRegenerateImage = (slideIndex: number) => {
+        const image = allUploadedImages.find(img => img.id === slides[slideIndex]?.imageId);
+        if (!image?.generation) return;
         setActiveSlideForImageAction(slideIndex);
+        setImageGenerationParams(image.generation);
+    };
+
+    const handleGenerateImageVariants = async (params: ImageGenerationParams): Promise<string[]> => {
+        logger.logInfo(`Generating ${params.variantCount} image variant(s) for: "${params.prompt}"`);
         try {
-            const base64Image = await gemini.generateImage(prompt);
-            const newImage: UploadedImage = {
-                id: crypto.randomUUID(),
-                file: new File([], `${prompt.slice(0, 20)}.png`, { type: 'image/png' }),
-                base64: base64Image,
-                source: 'ai',
-                query: prompt,
-            };
-            setAllUploadedImages(prev => [...prev, newImage]);
-            setSlides(prevSlides => prevSlides.map((slide, index) => 
-                index === slideIndex ? { ...slide, imageId: newImage.id, needsImage: false } : slide
-            ));
+            return await gemini.generateImage(params, settingsRef.current, getOperationSignal());
         } catch (e) {
-            handleError(e, () => handleGenerateImage(prompt, slideIndex));
-        } finally {
-            setActiveSlideForImageAction(null);
+            // Key and model problems get the usual modals; anything else is shown inside the dialog.
+            if (e instanceof gemini.AllKeysFailedError || e instanceof gemini.ConfigError) handleError(e);
+            throw e;
         }
     };
+
+    const handleSelectGeneratedImage = (base64: string, params: ImageGenerationParams) => {
+        const newImage: UploadedImage = {
+            id: crypto.randomUUID(),
+            file: new File([], `${params.prompt.slice(0, 20)}.png`, { type: 'image/png' }),
+            base64,
+            source: 'ai',
+            query: params.prompt,
+            generation: params,
+        };
+        setAllUploadedImages(prev => [...prev, newImage]);
+        setSlides(prevSlides => prevSlides.map((slide, index) => 
+            index === activeSlideForImageAction ? { ...slide, imageId: newImage.id, needsImage: false } : slide
+        ));
+        setImageGenerationParams(null);
+        setActiveSlideForImageAction(null);
+    };
     
     const handleAddImagesFromSearch = async (imagesToAdd: {url: string, query: string}[]) => {
         if (activeSlideForImageAction === null) return;
@@ -567,6 +896,61 @@ const AppContent: React.FC = () => {
         setActiveSlideForImageAction(null);
     };
 
+    const handleOpenImageEdit = (imageId: string) => {
+        setImageEditSource(allUploadedImages.find(img => img.id === imageId) || null);
+    };
+
+    const handleEditSlideImage = (slideIndex: number) => {
+        const image = allUploadedImages.find(img => img.id === slides[slideIndex]?.imageId);
+        if (!image) return;
+        setActiveSlideForImageAction(slideIndex);
+        setImageEditSource(image);
+    };
+
+    const handleEditImage = async (image: UploadedImage, instruction: string) => {
+        logger.logInfo(`Editing image ${image.id} with AI: "${instruction}"`);
+        try {
+            return await gemini.editImage(image, instruction, settingsRef.current, getOperationSignal());
+        } catch (e) {
+            // Key and model problems get the usual modals; anything else is shown inside the dialog.
+            if (e instanceof gemini.AllKeysFailedError || e instanceof gemini.ConfigError) handleError(e);
+            throw e;
+        }
+    };
+
+    const handleSaveEditedImage = (sourceImage: UploadedImage, result: { base64: string; mimeType: string }, instruction: string) => {
+        const extension = result.mimeType.split('/')[1] || 'png';
+        const newImage: UploadedImage = {
+            ...sourceImage,
+            id: crypto.randomUUID(),
+            file: new File([], `${sourceImage.file.name.replace(/\.[^.]+$/, '')}-edit.${extension}`, { type: result.mimeType }),
+            base64: result.base64,
+            analysisCached: undefined,
+            generation: undefined,
+            editedFrom: sourceImage.id,
+            editInstruction: instruction,
+        };
+        setAllUploadedImages(prev => [...prev, newImage]);
+        if (activeSlideForImageAction !== null) {
+            logger.logInfo(`Edited image placed on slide ${activeSlideForImageAction + 1}.`);
+            setSlides(prevSlides => prevSlides.map((slide, index) =>
+                index === activeSlideForImageAction ? { ...slide, imageId: newImage.id, needsImage: false } : slide
+            ));
+        }
+        setImageEditSource(null);
+        setIsImagePickerModalOpen(false);
+        setActiveSlideForImageAction(null);
+    };
+
+    const handleToggleImageVersion = (slideIndex: number) => {
+        const image = allUploadedImages.find(img => img.id === slides[slideIndex]?.imageId);
+        const counterpart = image && getImageCounterpart(image, allUploadedImages);
+        if (!counterpart) return;
+        setSlides(prevSlides => prevSlides.map((slide, index) =>
+            index === slideIndex ? { ...slide, imageId: counterpart.id, needsImage: false } : slide
+        ));
+    };
+
     const handleExport = async (format: ExportFormat) => {
         if (isExporting) return;
         setIsExporting(true);
@@ -582,67 +966,48 @@ const AppContent: React.FC = () => {
         }
     };
 
-    const handleGenerateVideo = async (style: string) => {
+    const handleGenerateVideo = async (style: string, mode: VideoJob['mode']) => {
         setIsVideoModalOpen(false);
-        setVideoGenState('generating');
-        setVideoProgress({ message: 'Отправка запроса на генерацию...', url: null, error: null });
+        setIsExporting(false);
+        setIsVideoJobsOpen(true);
         try {
-            const operation = await gemini.generateVideo(slides, allUploadedImages, style);
-            let videoOp = operation;
-            for (let i = 0; i < 30; i++) { // Timeout after ~5 mins
-                if (videoOp.done) break;
-                setVideoProgress(prev => ({ ...prev, message: `Обработка видео... (попытка ${i + 1}/30)` }));
-                await new Promise(resolve => setTimeout(resolve, 10000));
-                videoOp = await gemini.checkVideoStatus(videoOp);
-            }
-            if (videoOp.done && videoOp.response?.generatedVideos?.[0]?.video?.uri) {
-                const keyToUse = gemini.getCurrentApiKey();
-                if (!keyToUse) throw new Error("Нет ключа для скачивания видео.");
-                const fullUrl = `${videoOp.response.generatedVideos[0].video.uri}&key=${keyToUse}`;
-                setVideoProgress({ message: 'Готово!', url: fullUrl, error: null });
-                setVideoGenState('success');
-            } else {
-                throw new Error(videoOp.error?.message || 'Не удалось сгенерировать видео за отведенное время.');
+            await videoJobs.startVideoJob(style, mode, slides, allUploadedImages, settingsRef.current);
+        } catch (e) {
+            // The failed job stays in the panel with its error; key and model problems also get the usual modals.
+            if (e instanceof gemini.AllKeysFailedError || e instanceof gemini.ConfigError) {
+                handleError(e, () => handleGenerateVideo(style, mode));
             }
-        } catch(e) {
-            const message = e instanceof Error ? e.message : String(e);
-            setVideoProgress({ message: '', url: null, error: message });
-            setVideoGenState('error');
         }
     };
-    
-    const closeVideoOverlay = () => {
-        setVideoGenState('idle');
-        setIsExporting(false);
-    };
 
     if (initState === 'initializing' || authState === null) {
         return (
             <div className="bg-gray-900 text-white min-h-screen flex items-center justify-center">
                 <Loader message="Инициализация..." />
+                {vaultModal}
             </div>
         );
     }
     
     if (authState === 'unauthenticated') {
         if (showSplash) {
-            return <SplashScreen onStart={() => setShowSplash(false)} />;
+            return <>{vaultModal}<SplashScreen onStart={() => setShowSplash(false)} /></>;
         }
-        return <GitHubAuthModal onLogin={handleLogin} />;
+        return <>{vaultModal}<GitHubAuthModal onLogin={handleLogin} /></>;
     }
 
     return (
         <div className="bg-gray-900 text-white min-h-screen p-4 flex flex-col">
-            <Header onRestart={resetState} onOpenSettings={() => openSettingsPanel()} />
+            <Header onRestart={resetState} onOpenSettings={() => openSettingsPanel()} onOpenVideoJobs={() => setIsVideoJobsOpen(true)} activeVideoJobs={activeVideoJobs} vaultState={vaultState} onVaultClick={handleVaultClick} />
             
             <main className="flex-grow flex flex-col items-center justify-center mb-[60px]"> {/* Add margin-bottom for StatusBar */}
                 {appState === 'concept' && <ConceptInput onConceptSubmit={handleConceptSubmit} />}
-                {appState === 'generating_plan' && <PlanGenerationLoader />}
-                {appState === 'upload' && <ImageUploader initialPlan={initialStoryPlan} onUpload={handleUpload} />}
-                {appState === 'analyzing' && <AnalysisLoader images={analysisCursor.imagesToAnalyze} allImages={allUploadedImages} progress={analysisProgress} evolvingStorySummary={evolvingStorySummary} />}
-                {appState === 'chat' && <ChatWindow slides={slides} allImages={allUploadedImages} onSendMessage={handleSendMessage} onFinalize={handleFinalize} isTyping={isTyping} onSearch={handleOpenSearch} onGenerate={handleGenerateImage} onChangeImage={handleChangeImage} />}
+                {appState === 'generating_plan' && <PlanGenerationLoader onCancel={handleCancelOperation} />}
+                {appState === 'upload' && <ImageUploader initialPlan={initialStoryPlan} isPlanStreaming={isPlanStreaming} onUpload={handleUpload} settings={settings} onSettingsChange={handleSettingsChange} />}
+                {appState === 'analyzing' && <AnalysisLoader images={analysisCursor.imagesToAnalyze} allImages={allUploadedImages} progress={analysisProgress} evolvingStorySummary={evolvingStorySummary} isPaused={analysisCursor.status === 'paused'} onCancel={handleCancelOperation} onResume={resumeAnalysis} />}
+                {appState === 'chat' && <ChatWindow slides={slides} allImages={allUploadedImages} onSendMessage={handleSendMessage} onFinalize={handleFinalize} isTyping={isTyping} onCancelTyping={handleCancelOperation} streamingSlides={streamingSlides} messages={chatMessages} onSearch={handleOpenSearch} onGenerate={handleGenerateImage} onRegenerate={handleRegenerateImage} onEditImage={handleEditSlideImage} onToggleImageVersion={handleToggleImageVersion} onChangeImage={handleChangeImage} />}
                 {appState === 'presentation' && <PresentationViewer slides={slides} images={allUploadedImages} onExport={handleExport} isExporting={isExporting} onRestart={resetState} onEditScript={() => setAppState('chat')} voiceSettings={settings.voiceSettings} onVoiceSettingsChange={v => handleSettingsChange({...settings, voiceSettings: v})} musicSuggestions={musicSuggestions} settings={settings} />}
-                {appState === 'error' && <ErrorState error={error} onRetry={retryAction!} onOpenSettings={() => openSettingsPanel('api')} onRestart={resetState} />}
+                {appState === 'error' && <ErrorState error={error} cause={errorCause} onRetry={retryAction!} onOpenSettings={() => openSettingsPanel('api')} onRestart={resetState} />}
             </main>
 
             <ApiKeyModal isOpen={isApiKeyMissing} onClose={() => { setIsApiKeyMissing(false); openSettingsPanel('api'); }} message={null} />
@@ -696,18 +1061,24 @@ const AppContent: React.FC = () => {
                 onLogout={handleLogout}
                 syncStatus={syncStatus}
                 initialTab={settingsInitialTab}
+                vaultState={vaultState}
+                onEnableVault={() => setIsVaultSetupOpen(true)}
+                onDisableVault={handleDisableVault}
             />
             
             <ImageSearchModal isOpen={isSearchModalOpen} onClose={() => setIsSearchModalOpen(false)} query={searchQuery} onAddImages={handleAddImagesFromSearch} />
-            <ImagePickerModal isOpen={isImagePickerModalOpen} onClose={() => setIsImagePickerModalOpen(false)} images={allUploadedImages} onSelect={handleSelectImageFromPicker} />
+            {imageGenerationParams && <ImageGenerationModal isOpen={true} onClose={() => { setImageGenerationParams(null); setActiveSlideForImageAction(null); }} initialParams={imageGenerationParams} onGenerateVariants={handleGenerateImageVariants} onCancelGeneration={handleCancelOperation} onSelect={handleSelectGeneratedImage} />}
+            <ImagePickerModal isOpen={isImagePickerModalOpen} onClose={() => setIsImagePickerModalOpen(false)} images={allUploadedImages} onSelect={handleSelectImageFromPicker} onEdit={handleOpenImageEdit} />
+            <ImageEditModal image={imageEditSource} onClose={() => { setImageEditSource(null); if (!isImagePickerModalOpen) setActiveSlideForImageAction(null); }} onEdit={handleEditImage} onCancelEdit={handleCancelOperation} onSave={handleSaveEditedImage} />
             <VideoExportModal isOpen={isVideoModalOpen} onClose={() => { setIsVideoModalOpen(false); setIsExporting(false); }} onGenerate={handleGenerateVideo} />
-            {videoGenState !== 'idle' && <VideoGenerationOverlay state={videoGenState} progress={videoProgress} onClose={closeVideoOverlay} />}
+            <VideoJobsPanel isOpen={isVideoJobsOpen} onClose={() => setIsVideoJobsOpen(false)} />
             
             <LogViewerModal isOpen={isLogViewerOpen} onClose={() => setIsLogViewerOpen(false)} />
             <ErrorDetailModal log={detailedError} onClose={() => setDetailedError(null)} />
             <ErrorDetailModal log={detailedLog} onClose={() => setDetailedLog(null)} isGeneric={true} />
 
             <StatusBar onOpenLogViewer={() => setIsLogViewerOpen(true)} />
+            {vaultModal}
         </div>
     );
 };
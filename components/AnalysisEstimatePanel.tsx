@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { UploadedImage, AppSettings } from '../types';
+import * as gemini from '../services/geminiService';
+import { AnalysisEstimate } from '../services/geminiService';
+import { RefreshIcon } from './icons';
+
+interface AnalysisEstimatePanelProps {
+  images: UploadedImage[]; // The selected images, in upload order
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  onLimitImages: (count: number) => void; // Keeps only the first `count` selected images
+}
+
+// Selection changes come in bursts while the user clicks through the tray.
+const ESTIMATE_DEBOUNCE = 500;
+
+const formatTokens = (tokens: number): string => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+
+const PASS_LABELS: { id: keyof AnalysisEstimate['passes']; label: string }[] = [
+  { id: 'analysis', label: 'Анализ кадров' },
+  { id: 'storyboard', label: 'Сценарий' },
+  { id: 'ssml', label: 'Озвучка (SSML)' },
+];
+
+const AnalysisEstimatePanel: React.FC<AnalysisEstimatePanelProps> = ({ images, settings, onSettingsChange, onLimitImages }) => {
+  const [estimate, setEstimate] = useState<AnalysisEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isPrecise, setIsPrecise] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the settings the estimate reads; editing anything else must not re-run it (or its countTokens calls).
+  const modelRoute = `${settings.geminiModel}|${settings.llmModel}|${settings.geminiEndpoint}|${JSON.stringify(settings.modelRoutes ?? {})}`;
+  const keyBudgets = settings.apiKeys.map(key => `${key.value}:${key.status}:${key.dailyTokenBudget ?? ''}`).join(',');
+  const tokenInputs = [images, settings.analysisMode, settings.analysisBatchSize, settings.imagePreprocessing, settings.llmProvider, settings.promptOverrides, settings.activeProject, modelRoute];
+
+  // Any change of the inputs invalidates a measured estimate; the user asks for a new one explicitly.
+  useEffect(() => {
+    setIsPrecise(false);
+  }, tokenInputs);
+
+  useEffect(() => {
+    if (images.length === 0) {
+      setEstimate(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsEstimating(true);
+      try {
+        const result = await gemini.estimateAnalysisRun(images, settings, isPrecise, controller.signal);
+        if (!controller.signal.aborted) {
+          setEstimate(result);
+          setError(null);
+        }
+      } catch (e) {
+        if (!controller.signal.aborted && !(e instanceof gemini.CancelledError)) {
+          setError(`Не удалось оценить запуск: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsEstimating(false);
+      }
+    }, isPrecise ? 0 : ESTIMATE_DEBOUNCE);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [...tokenInputs, keyBudgets, isPrecise]);
+
+  if (images.length === 0) return null;
+
+  const handleReduceResolution = (maxLongEdge: number) => {
+    onSettingsChange({ ...settings, imagePreprocessing: { ...settings.imagePreprocessing, enabled: true, maxLongEdge } });
+  };
+
+  const budgetText = !estimate ? '' : !estimate.usesKeyPool
+    ? 'Выбранный провайдер не использует ключи Gemini: бюджет ключей не проверяется.'
+    : estimate.keyBudgets.length === 0
+      ? 'Нет ключей, доступных сегодня.'
+      : estimate.remainingBudget === null
+        ? 'Дневной бюджет задан не для всех доступных ключей: остаток не ограничен.'
+        : `Остаток дневного бюджета ключей: ${formatTokens(estimate.remainingBudget)} токенов.`;
+
+  return (
+    <div className={`flex-shrink-0 p-4 rounded-2xl border text-sm ${estimate?.exceedsBudget ? 'bg-yellow-900/30 border-yellow-600/60' : 'bg-gray-800/50 border-gray-700'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-semibold text-white flex items-center gap-2">
+          {isEstimating && <RefreshIcon className="w-4 h-4 animate-spin text-indigo-300" />}
+          {estimate
+            ? `Оценка запуска: ~${estimate.requests} запросов, ~${formatTokens(estimate.totalTokens)} токенов`
+            : 'Оцениваю запуск...'}
+        </p>
+        {estimate?.usesKeyPool && (
+          <button
+            onClick={() => setIsPrecise(true)}
+            disabled={isEstimating || estimate.source === 'countTokens'}
+            title="Посчитать токены промптов и изображений через countTokens. Запрос бесплатный, но отправляет изображения в API."
+            className="px-3 py-1 text-xs text-gray-300 border border-gray-600 rounded-full hover:bg-gray-700 disabled:opacity-50"
+          >
+            {estimate.source === 'countTokens' ? 'Уточнено через countTokens' : 'Уточнить через countTokens'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+      {estimate && (
+        <>
+          <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-gray-400">
+            {PASS_LABELS.map(({ id, label }) => {
+              const pass = estimate.passes[id];
+              return (
+                <div key={id}>
+                  <span className="text-gray-300">{label}:</span> {pass.requests} запр., ~{formatTokens(pass.inputTokens + pass.outputTokens)}
+                </div>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {estimate.source === 'countTokens' ? 'Промпты и изображения посчитаны через countTokens, ответы оценены' : 'Приблизительная оценка'}
+            {estimate.cachedCount > 0 && `; ${estimate.cachedCount} кадр(ов) возьмутся из кэша анализа`}
+            . Токены размышлений модели не учитываются.
+          </p>
+          <p className="mt-2 text-xs text-gray-300">{budgetText}</p>
+          {estimate.keyBudgets.some(budget => budget.remaining !== null) && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {estimate.keyBudgets.map(budget => (
+                <span key={budget.maskedKey} className="px-2 py-0.5 text-xs font-mono bg-gray-700/70 text-gray-300 rounded-full">
+                  {budget.label ? `${budget.label} ` : ''}{budget.maskedKey}: {budget.remaining === null ? '∞' : formatTokens(budget.remaining)}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {estimate.exceedsBudget && (
+            <div className="mt-3 pt-3 border-t border-yellow-600/40">
+              <p className="text-yellow-300">
+                Оценка превышает остаток бюджета: анализ может остановиться на середине, пока ключи не восстановятся.
+              </p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {!!estimate.maxImagesWithinBudget && (
+                  <button onClick={() => onLimitImages(estimate.maxImagesWithinBudget!)} className="px-3 py-1.5 text-xs font-semibold text-white bg-yellow-600 rounded-full hover:bg-yellow-700">
+                    Оставить первые {estimate.maxImagesWithinBudget} изображений
+                  </button>
+                )}
+                {estimate.reducedResolution && (
+                  <button onClick={() => handleReduceResolution(estimate.reducedResolution!.maxLongEdge)} className="px-3 py-1.5 text-xs font-semibold text-white bg-yellow-600 rounded-full hover:bg-yellow-700">
+                    Уменьшить до {estimate.reducedResolution.maxLongEdge} px (~{formatTokens(estimate.reducedResolution.totalTokens)} токенов)
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisEstimatePanel;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { UploadedImage, AnalysisProgress } from '../types';
-import { CheckCircleIcon, RefreshIcon } from './icons';
+import { UploadedImage, AnalysisProgress, AnalysisImageStatus } from '../types';
+import { CheckCircleIcon, RefreshIcon, ClockIcon, WarningIcon } from './icons';
 import Loader from './Loader';
 
 interface AnalysisLoaderProps {
@@ -8,14 +8,23 @@ interface AnalysisLoaderProps {
   allImages: UploadedImage[];
   progress: AnalysisProgress;
   evolvingStorySummary: string;
+  isPaused?: boolean;
+  onCancel?: () => void;
+  onResume?: () => void;
 }
 
-const AnalysisLoader: React.FC<AnalysisLoaderProps> = ({ images, allImages, progress, evolvingStorySummary }) => {
+const AnalysisLoader: React.FC<AnalysisLoaderProps> = ({ images, allImages, progress, evolvingStorySummary, isPaused = false, onCancel, onResume }) => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const activeThumbnailRef = useRef<HTMLButtonElement>(null);
   
   const currentImageInView = images[currentImageIndex];
   const fullCurrentImage = allImages.find(img => img.id === currentImageInView?.id) || currentImageInView;
+  const statuses: Record<string, AnalysisImageStatus> = progress.imageStatuses || {};
+  const currentStatus: AnalysisImageStatus | undefined = currentImageInView ? statuses[currentImageInView.id] : undefined;
+  const statusCounts = Object.values(statuses).reduce<Record<AnalysisImageStatus, number>>(
+    (acc, status) => ({ ...acc, [status]: acc[status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0, skipped: 0 }
+  );
 
     useEffect(() => {
         // Automatically move the view to the slide being processed
@@ -33,12 +42,30 @@ const AnalysisLoader: React.FC<AnalysisLoaderProps> = ({ images, allImages, prog
   return (
     <div className="w-full max-w-7xl mx-auto flex flex-col h-[85vh]">
       <div className="flex-shrink-0 mb-3 text-white">
-        <h2 className="text-xl font-bold text-center mb-3">
-            {progress.isSynthesizing ? "Синтез финального сюжета..." : `Анализ изображений... (${progress.currentIndex}/${progress.total})`}
-        </h2>
+        <div className="relative mb-3">
+            <h2 className="text-xl font-bold text-center">
+                {isPaused ? `Анализ приостановлен (${progress.currentIndex}/${progress.total})` : progress.isSynthesizing ? "Синтез финального сюжета..." : `Анализ изображений... (${progress.currentIndex}/${progress.total})`}
+            </h2>
+            <div className="absolute right-0 top-1/2 -translate-y-1/2">
+                {isPaused ? (
+                    onResume && <button onClick={onResume} className="px-4 py-1.5 text-sm font-semibold bg-indigo-600 rounded-full hover:bg-indigo-700">Продолжить</button>
+                ) : (
+                    onCancel && <button onClick={onCancel} className="px-4 py-1.5 text-sm font-semibold text-gray-300 border border-gray-600 rounded-full hover:bg-gray-700 hover:text-white">Отменить</button>
+                )}
+            </div>
+        </div>
         <div className="w-full bg-gray-700/50 rounded-full h-2.5">
             <div className="bg-gradient-to-r from-indigo-500 to-purple-500 h-2.5 rounded-full transition-all duration-500 ease-out" style={{ width: `${(progress.currentIndex / progress.total) * 100}%` }}></div>
         </div>
+        {progress.imageStatuses && (
+            <div className="flex justify-center gap-4 mt-2 text-xs text-gray-400">
+                <span>В очереди: {statusCounts.queued}</span>
+                <span className="text-indigo-300">В работе: {statusCounts.running}</span>
+                <span className="text-green-400">Готово: {statusCounts.done}</span>
+                {statusCounts.failed > 0 && <span className="text-red-400">Ошибки: {statusCounts.failed}</span>}
+                {statusCounts.skipped > 0 && <span className="text-yellow-400" title="Модель отказалась анализировать эти кадры из-за фильтров безопасности; в сценарий они не попадут">Пропущено: {statusCounts.skipped}</span>}
+            </div>
+        )}
       </div>
       
       <div className="flex-grow grid grid-cols-1 lg:grid-cols-3 gap-4 min-h-0">
@@ -56,7 +83,19 @@ const AnalysisLoader: React.FC<AnalysisLoaderProps> = ({ images, allImages, prog
             
             <div className="absolute bottom-12 left-0 right-0 p-6 text-white text-shadow-glow">
               {fullCurrentImage?.description ? (
-                <p className="text-lg md:text-xl max-w-4xl animate-text-in">{fullCurrentImage.description}</p>
+                <>
+                  {fullCurrentImage.analysisCached && (
+                    <span className="inline-block mb-2 px-2 py-0.5 text-xs font-semibold text-teal-200 bg-teal-800/70 rounded">Из кэша — без запроса к API</span>
+                  )}
+                  <p className="text-lg md:text-xl max-w-4xl animate-text-in">{fullCurrentImage.description}</p>
+                </>
+              ) : isPaused ? (
+                <div className="text-gray-400">Анализ этого кадра продолжится после нажатия «Продолжить».</div>
+              ) : currentStatus === 'queued' ? (
+                <div className="flex items-center gap-2 text-gray-400">
+                    <ClockIcon className="w-5 h-5" />
+                    <span>Кадр ждет своей очереди...</span>
+                </div>
               ) : (
                 <div className="flex items-center gap-2 text-gray-400">
                     <RefreshIcon className="w-5 h-5 animate-spin" />
@@ -84,7 +123,9 @@ const AnalysisLoader: React.FC<AnalysisLoaderProps> = ({ images, allImages, prog
        <div className="flex-shrink-0 w-full bg-gray-800/50 backdrop-blur-sm rounded-xl p-2 mt-3">
             <div className="flex items-center gap-3 overflow-x-auto pb-1 custom-scrollbar">
                 {images.map((thumbImage, index) => {
-                    const isAnalyzed = !!allImages.find(i => i.id === thumbImage.id)?.description;
+                    const analyzedImage = allImages.find(i => i.id === thumbImage.id);
+                    const isAnalyzed = !!analyzedImage?.description;
+                    const status = statuses[thumbImage.id];
                     const isActive = index === currentImageIndex;
                     return (
                         <button
@@ -96,8 +137,19 @@ const AnalysisLoader: React.FC<AnalysisLoaderProps> = ({ images, allImages, prog
                         >
                             <img src={`data:${thumbImage.file.type};base64,${thumbImage.base64}`} alt={`Превью кадра ${index + 1}`} className="w-full h-full object-cover" />
                             <div className="absolute inset-0 bg-black/30 group-hover:bg-black/10 transition-colors"></div>
-                            {isAnalyzed && (
-                                <CheckCircleIcon className="absolute top-1 right-1 w-5 h-5 text-white bg-green-600 rounded-full" />
+                            {isAnalyzed ? (
+                                <CheckCircleIcon className={`absolute top-1 right-1 w-5 h-5 text-white rounded-full ${analyzedImage?.analysisCached ? 'bg-teal-500' : 'bg-green-600'}`} />
+                            ) : status === 'running' ? (
+                                <RefreshIcon className="absolute top-1 right-1 w-5 h-5 p-0.5 text-white bg-indigo-600 rounded-full animate-spin" />
+                            ) : status === 'failed' ? (
+                                <WarningIcon className="absolute top-1 right-1 w-5 h-5 p-0.5 text-white bg-red-600 rounded-full" />
+                            ) : status === 'skipped' ? (
+                                <WarningIcon className="absolute top-1 right-1 w-5 h-5 p-0.5 text-white bg-yellow-600 rounded-full" />
+                            ) : status === 'queued' ? (
+                                <ClockIcon className="absolute top-1 right-1 w-5 h-5 p-0.5 text-gray-200 bg-gray-600/80 rounded-full" />
+                            ) : null}
+                            {analyzedImage?.analysisCached && (
+                                <span className="absolute bottom-1 right-1 text-[10px] font-bold text-teal-100 bg-teal-700/80 px-1 rounded">кэш</span>
                             )}
                             <span className="absolute bottom-1 left-1 text-xs font-bold text-white bg-black/60 px-1.5 py-0.5 rounded">
                                 {index + 1}
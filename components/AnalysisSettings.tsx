@@ -0,0 +1,85 @@
+import React from 'react';
+import { AppSettings, AnalysisMode, ImagePreprocessSettings } from '../types';
+
+interface AnalysisSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (newSettings: AppSettings) => void;
+}
+
+const MODE_OPTIONS: { id: AnalysisMode; name: string; description: string }[] = [
+    { id: 'sequential', name: 'Последовательно', description: 'По одному кадру за запрос, история растет с каждым кадром. Самый связный результат, но самый медленный.' },
+    { id: 'batched', name: 'Пакетами', description: 'Несколько кадров за один запрос. Меньше запросов и повторов контекста.' },
+    { id: 'parallel', name: 'Параллельно', description: 'Кадры описываются независимо и одновременно, затем история собирается одним запросом. Быстрее всего для больших серий.' },
+];
+
+const AnalysisSettings: React.FC<AnalysisSettingsProps> = ({ settings, onSettingsChange }) => {
+    const preprocessing = settings.imagePreprocessing;
+
+    const handleNumberChange = (field: 'analysisBatchSize' | 'analysisConcurrency', value: string) => {
+        onSettingsChange({ ...settings, [field]: Math.min(10, Math.max(1, parseInt(value, 10) || 1)) });
+    };
+
+    const handlePreprocessingChange = (changes: Partial<ImagePreprocessSettings>) => {
+        onSettingsChange({ ...settings, imagePreprocessing: { ...preprocessing, ...changes } });
+    };
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-white">Анализ изображений</h3>
+            <p className="text-sm text-gray-400 mt-1">Как отправлять загруженные фотографии ИИ-режиссеру.</p>
+            <div className="mt-4 space-y-2">
+                {MODE_OPTIONS.map(option => (
+                    <label key={option.id} className={`flex items-start gap-3 p-3 rounded-lg cursor-pointer ${settings.analysisMode === option.id ? 'bg-indigo-600/30 border border-indigo-500' : 'bg-gray-900/50 border border-transparent hover:bg-gray-700/50'}`}>
+                        <input type="radio" name="analysis-mode" checked={settings.analysisMode === option.id} onChange={() => onSettingsChange({ ...settings, analysisMode: option.id })} className="mt-1" />
+                        <div>
+                            <p className="text-sm font-semibold text-white">{option.name}</p>
+                            <p className="text-xs text-gray-400">{option.description}</p>
+                        </div>
+                    </label>
+                ))}
+            </div>
+            {settings.analysisMode === 'batched' && (
+                <div className="mt-3">
+                    <label htmlFor="analysis-batch-size" className="block text-sm font-medium text-gray-300 mb-1">Кадров в одном запросе</label>
+                    <input id="analysis-batch-size" type="number" min="1" max="10" value={settings.analysisBatchSize} onChange={e => handleNumberChange('analysisBatchSize', e.target.value)} className="w-24 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm" />
+                </div>
+            )}
+            {settings.analysisMode === 'parallel' && (
+                <div className="mt-3">
+                    <label htmlFor="analysis-concurrency" className="block text-sm font-medium text-gray-300 mb-1">Одновременных запросов</label>
+                    <input id="analysis-concurrency" type="number" min="1" max="10" value={settings.analysisConcurrency} onChange={e => handleNumberChange('analysisConcurrency', e.target.value)} className="w-24 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm" />
+                    <p className="text-xs text-gray-500 mt-1">Лимиты запросов в минуту по-прежнему действуют: лишние запросы подождут в очереди.</p>
+                </div>
+            )}
+
+            <div className="mt-6">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                    <input type="checkbox" checked={preprocessing.enabled} onChange={e => handlePreprocessingChange({ enabled: e.target.checked })} />
+                    Уменьшать фото перед отправкой
+                </label>
+                <p className="text-xs text-gray-500 mt-1">Поворот по EXIF, уменьшение и пересжатие копии снимка. Ускоряет анализ и снижает расход токенов; для экспорта используются оригиналы.</p>
+                {preprocessing.enabled && (
+                    <div className="mt-3 grid grid-cols-3 gap-3">
+                        <div>
+                            <label htmlFor="preprocess-edge" className="block text-xs text-gray-400 mb-1">Длинная сторона, px</label>
+                            <input id="preprocess-edge" type="number" min="256" max="4096" step="128" value={preprocessing.maxLongEdge} onChange={e => handlePreprocessingChange({ maxLongEdge: Math.min(4096, parseInt(e.target.value, 10) || 0) })} className="w-full p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm" />
+                        </div>
+                        <div>
+                            <label htmlFor="preprocess-format" className="block text-xs text-gray-400 mb-1">Формат</label>
+                            <select id="preprocess-format" value={preprocessing.format} onChange={e => handlePreprocessingChange({ format: e.target.value as ImagePreprocessSettings['format'] })} className="w-full p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-sm">
+                                <option value="image/jpeg">JPEG</option>
+                                <option value="image/webp">WebP</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="preprocess-quality" className="block text-xs text-gray-400 mb-1">Качество: {Math.round(preprocessing.quality * 100)}%</label>
+                            <input id="preprocess-quality" type="range" min="0.5" max="1" step="0.05" value={preprocessing.quality} onChange={e => handlePreprocessingChange({ quality: parseFloat(e.target.value) })} className="w-full" />
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AnalysisSettings;
@@ -0,0 +1,108 @@
+import React, { useState, useRef } from 'react';
+import { ApiKey } from '../types';
+import { parseKeyImport, buildKeyExport } from '../utils/keyImport';
+import { DownloadIcon, PaperclipIcon } from './icons';
+
+interface ApiKeyImportExportProps {
+  keys: ApiKey[];
+  onImport: (newKeys: ApiKey[]) => void;
+  isImporting: boolean;
+}
+
+const ApiKeyImportExport: React.FC<ApiKeyImportExportProps> = ({ keys, onImport, isImporting }) => {
+  const [text, setText] = useState('');
+  const [label, setLabel] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [isMasked, setIsMasked] = useState(true);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { candidates, maskedCount } = parseKeyImport(text);
+  const existing = new Set(keys.map(k => k.value));
+  const newCandidates = candidates.filter(candidate => !existing.has(candidate.value));
+  const duplicateCount = candidates.length - newCandidates.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setFileError(null);
+    } catch (error) {
+      setFileError(`Не удалось прочитать файл: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleImport = () => {
+    onImport(newCandidates.map(candidate => ({
+      value: candidate.value,
+      status: 'unknown',
+      label: candidate.label || label.trim() || undefined,
+      projectId: candidate.projectId || projectId.trim() || undefined,
+    })));
+    setText('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([buildKeyExport(keys, isMasked)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `api-keys-${new Date().toISOString().slice(0, 10)}${isMasked ? '-masked' : ''}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <details className="bg-gray-900/50 p-3 rounded-lg">
+      <summary className="cursor-pointer font-semibold text-gray-300 text-sm">Массовый импорт и экспорт</summary>
+      <div className="mt-3 space-y-3">
+        <textarea
+          rows={4}
+          value={text}
+          onChange={e => setText(e.target.value)}
+          disabled={isImporting}
+          placeholder={'Вставьте список ключей, содержимое .env или JSON-экспорт:\nGEMINI_KEY_1=AIza...\nAIza...'}
+          className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-xs"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" value={label} onChange={e => setLabel(e.target.value)} disabled={isImporting} placeholder="Метка (необязательно)" className="p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+          <input type="text" value={projectId} onChange={e => setProjectId(e.target.value)} disabled={isImporting} placeholder="ID проекта (необязательно)" className="p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+        </div>
+        <p className="text-xs text-gray-500">Метка и проект применяются к ключам, у которых их нет в импортируемых данных.</p>
+        {text.trim() && (
+          <p className="text-xs text-gray-400">
+            Найдено ключей: {candidates.length}, новых: {newCandidates.length}
+            {duplicateCount > 0 && `, уже в списке: ${duplicateCount}`}
+            {maskedCount > 0 && `, скрытых (не импортируются): ${maskedCount}`}
+          </p>
+        )}
+        {fileError && <p className="text-xs text-red-400">{fileError}</p>}
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={handleImport} disabled={isImporting || newCandidates.length === 0} className="px-4 py-2 text-sm font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500">
+            {isImporting ? 'Проверка...' : `Импортировать${newCandidates.length > 0 ? ` (${newCandidates.length})` : ''}`}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-gray-700">
+            <PaperclipIcon className="w-4 h-4" /> Из файла
+          </button>
+          <input ref={fileInputRef} type="file" accept=".env,.txt,.json,text/plain,application/json" onChange={handleFileChange} className="hidden" />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-gray-700">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input type="checkbox" checked={isMasked} onChange={e => setIsMasked(e.target.checked)} />
+            Скрыть ключи при экспорте
+          </label>
+          <button onClick={handleExport} disabled={keys.length === 0} className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-300 border border-gray-600 rounded-md hover:bg-gray-700 disabled:opacity-50">
+            <DownloadIcon className="w-4 h-4" /> Экспорт ({keys.length})
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default ApiKeyImportExport;
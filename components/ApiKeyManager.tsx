@@ -1,15 +1,28 @@
 // FIX: Import 'useEffect' from 'react' to resolve the 'Cannot find name' error.
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { ApiKey, AppSettings } from '../types';
-import { checkApiKey, healthCheckAllKeys, getKeyPoolState, forceResetAllKeys } from '../services/geminiService';
+import { ApiKey, AppSettings, KeySchedulingStrategy } from '../types';
+import { checkApiKey, healthCheckAllKeys, getKeyPoolState, forceResetAllKeys, getKeySelectionHistory, applyKeyCheckResult, initializeApiKeys } from '../services/geminiService';
+import { getNextPacificMidnight, toQuotaDayKey } from '../utils/quotaParser';
+import { runWithConcurrency } from '../utils/concurrency';
+import { useLogger } from '../context/LoggerContext';
+import ApiKeyImportExport from './ApiKeyImportExport';
 import { RefreshIcon, PinIcon, PinOffIcon, XCircleIcon, CheckCircleIcon, WarningIcon, MenuIcon, ExternalLinkIcon, ClockIcon } from './icons';
 
 interface ApiKeyManagerProps {
   keys: ApiKey[];
   onKeysChange: (keys: ApiKey[]) => void;
+  onStrategyChange: (strategy: KeySchedulingStrategy) => void;
   settings: AppSettings;
 }
 
+const STRATEGY_OPTIONS: { value: KeySchedulingStrategy; label: string; description: string }[] = [
+    { value: 'pinned_first', label: 'Закрепленный, затем по порядку', description: 'Закрепленный ключ используется первым, остальные - сверху вниз.' },
+    { value: 'round_robin', label: 'По кругу', description: 'Каждый следующий запрос уходит на следующий ключ в списке.' },
+    { value: 'least_recently_used', label: 'Давно не использованный', description: 'Выбирается ключ, который дольше всех простаивал.' },
+    { value: 'least_tokens_used', label: 'Наименьший расход за день', description: 'Выбирается ключ, потративший меньше всего токенов сегодня.' },
+    { value: 'weighted', label: 'Взвешенный случайный', description: 'Ключи выбираются случайно пропорционально их весу.' },
+];
+
 const maskKey = (key: string) => {
     if (!key || key.length < 8) return '****';
     return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
@@ -73,10 +86,20 @@ const getStatusInfo = (key: ApiKey) => {
     }
 };
 
-const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, settings }) => {
+const IMPORT_CHECK_CONCURRENCY = 4;
+
+const formatTokens = (tokens: number): string => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+
+const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, onStrategyChange, settings }) => {
+    // Subscribing to logs re-renders the manager after every API call, keeping live usage and selections fresh.
+    useLogger();
     const [newKeyValue, setNewKeyValue] = useState('');
     const [checkingStatus, setCheckingStatus] = useState<Record<string, boolean>>({});
     const [addKeyError, setAddKeyError] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    // Bulk checks finish long after the render that started them; results go into the latest key list.
+    const keysRef = useRef(keys);
+    keysRef.current = keys;
 
     const dragKey = useRef<number | null>(null);
     const dragOverKey = useRef<number | null>(null);
@@ -87,8 +110,9 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
         try {
             // FIX: Explicitly type 'status' to prevent TypeScript from widening it to a generic 'string'.
             const status: ApiKey['status'] = await checkApiKey(keyToCheck, settings.geminiModel, settings.geminiEndpoint);
+            const resetTime = status === 'exhausted' ? getNextPacificMidnight() : status === 'rate_limited' ? Date.now() + 60 * 1000 : undefined;
             const newKeys = keys.map(k => 
-                k.value === keyToCheck ? { ...k, status, lastChecked: Date.now(), resetTime: undefined, lastError: undefined } : k
+                k.value === keyToCheck ? { ...k, status, lastChecked: Date.now(), resetTime, lastError: undefined } : k
             );
             onKeysChange(newKeys);
         } catch (error: any) {
@@ -122,6 +146,30 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
         handleCheckKey(trimmedKey);
     };
 
+    const handleImportKeys = async (newKeys: ApiKey[]) => {
+        if (newKeys.length === 0) return;
+        // The pool normally follows settings in an effect; the checks below must find the new keys there already.
+        initializeApiKeys([...keys, ...newKeys]);
+        onKeysChange([...keys, ...newKeys]);
+        setIsImporting(true);
+        setCheckingStatus(prev => ({ ...prev, ...Object.fromEntries(newKeys.map(k => [k.value, true])) }));
+
+        await runWithConcurrency(newKeys, IMPORT_CHECK_CONCURRENCY, async (key) => {
+            try {
+                applyKeyCheckResult(key.value, await checkApiKey(key.value, settings.geminiModel, settings.geminiEndpoint));
+            } catch (error: any) {
+                applyKeyCheckResult(key.value, error.name === 'ConfigError' ? 'config_error' : 'unknown', error.message);
+            } finally {
+                setCheckingStatus(prev => ({ ...prev, [key.value]: false }));
+            }
+        });
+
+        // The pool now holds the checked statuses; keys removed during the checks stay removed.
+        const poolState = new Map(getKeyPoolState().map(k => [k.value, k]));
+        onKeysChange(keysRef.current.map(k => poolState.get(k.value) ?? k));
+        setIsImporting(false);
+    };
+
     const handleRemoveKey = (keyToRemove: string) => {
         onKeysChange(keys.filter(k => k.value !== keyToRemove));
     };
@@ -147,6 +195,11 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
         setCheckingStatus({});
     };
 
+    const handleKeyFieldChange = (keyValue: string, field: 'weight' | 'dailyTokenBudget', value: string) => {
+        const parsed = parseFloat(value);
+        onKeysChange(keys.map(k => k.value === keyValue ? { ...k, [field]: isNaN(parsed) || parsed <= 0 ? undefined : parsed } : k));
+    };
+
     const handleForceReset = () => {
         const updatedKeys = forceResetAllKeys();
         onKeysChange(updatedKeys);
@@ -184,6 +237,15 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
         onKeysChange(reorderedKeys);
     };
 
+    const livePool = getKeyPoolState();
+    const today = toQuotaDayKey(Date.now());
+    const getUsedToday = (keyValue: string): number => {
+        const liveKey = livePool.find(k => k.value === keyValue);
+        return liveKey?.usageDay === today ? liveKey.tokensUsedToday ?? 0 : 0;
+    };
+    const recentSelections = getKeySelectionHistory().slice(0, 8);
+    const activeStrategy = STRATEGY_OPTIONS.find(o => o.value === settings.keyStrategy) || STRATEGY_OPTIONS[0];
+
     return (
         <div className="space-y-6">
             <div>
@@ -207,6 +269,19 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
                 </div>
             </details>
 
+            <div>
+                <label htmlFor="key-strategy" className="block text-sm font-medium text-gray-300 mb-1">Стратегия выбора ключа</label>
+                <select
+                    id="key-strategy"
+                    value={settings.keyStrategy}
+                    onChange={e => onStrategyChange(e.target.value as KeySchedulingStrategy)}
+                    className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+                >
+                    {STRATEGY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{activeStrategy.description} Ключи, исчерпавшие дневной бюджет токенов, пропускаются.</p>
+            </div>
+
             <div>
                 <div className="flex gap-2">
                     <input
@@ -231,6 +306,8 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
                 {addKeyError && <p className="text-xs text-red-400 mt-1">{addKeyError}</p>}
             </div>
 
+            <ApiKeyImportExport keys={keys} onImport={handleImportKeys} isImporting={isImporting} />
+
             <div className="space-y-2 max-h-[20rem] overflow-y-auto pr-2 -mr-2 custom-scrollbar" onDragOver={(e) => e.preventDefault()}>
                 {keys.map((key, index) => {
                     const statusInfo = getStatusInfo(key);
@@ -252,11 +329,23 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
                                 {isChecking ? <RefreshIcon className="w-5 h-5 text-indigo-400 animate-spin" /> : statusInfo.icon}
                             </div>
                             <div className="flex-grow">
-                                <p className="font-mono text-sm text-gray-300">{maskKey(key.value)}</p>
+                                <p className="font-mono text-sm text-gray-300">
+                                    {maskKey(key.value)}
+                                    {(key.label || key.projectId) && <span className="ml-2 font-sans text-xs text-gray-500">{[key.label, key.projectId].filter(Boolean).join(' · ')}</span>}
+                                </p>
                                 <p className={`text-xs ${isChecking ? 'text-indigo-300' : statusInfo.textColor}`}>
                                     {isChecking ? 'Проверка...' : statusInfo.text}
                                     {key.resetTime && <Countdown resetTime={key.resetTime} />}
                                 </p>
+                                <p className="text-[10px] text-gray-500">
+                                    Сегодня: {formatTokens(getUsedToday(key.value))}{key.dailyTokenBudget ? ` / ${formatTokens(key.dailyTokenBudget)}` : ''} токенов
+                                </p>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                {settings.keyStrategy === 'weighted' && (
+                                    <input type="number" min="0" step="0.5" value={key.weight ?? ''} onChange={e => handleKeyFieldChange(key.value, 'weight', e.target.value)} placeholder="Вес 1" title="Вес ключа" className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+                                )}
+                                <input type="number" min="0" step="1000" value={key.dailyTokenBudget ?? ''} onChange={e => handleKeyFieldChange(key.value, 'dailyTokenBudget', e.target.value)} placeholder="Бюджет" title="Дневной бюджет токенов (пусто - без ограничений)" className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
                             </div>
                             <div className="flex items-center gap-1">
                                 <button
@@ -290,6 +379,20 @@ const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, onKeysChange, setti
                 )}
             </div>
             
+            {recentSelections.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-gray-300 mb-2 text-sm">Последние выборы ключа</h4>
+                    <ul className="space-y-1 text-xs font-mono text-gray-400">
+                        {recentSelections.map(selection => (
+                            <li key={`${selection.timestamp}-${selection.maskedKey}`} className="flex justify-between gap-2">
+                                <span>{new Date(selection.timestamp).toLocaleTimeString()} {selection.maskedKey}</span>
+                                <span className="text-gray-500 truncate">{selection.model} · {selection.strategy}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <div className="flex justify-between items-center pt-4 border-t border-gray-700">
                  <button
                     onClick={handleCheckAllKeys}
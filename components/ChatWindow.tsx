@@ -1,46 +1,60 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage, UploadedImage, Slide } from '../types';
-import { SparklesIcon, SearchIcon, RefreshIcon, EditIcon } from './icons';
+import { ChatMessage, UploadedImage, Slide, SlideOperationOutcome } from '../types';
+import { SparklesIcon, SearchIcon, RefreshIcon, EditIcon, CheckCircleIcon, XCircleIcon } from './icons';
 import { isPexelsConfigured } from '../services/imageSearchService';
+import { getImageCounterpart } from '../utils/imageVersions';
 
 interface ChatWindowProps {
   slides: Slide[];
   allImages: UploadedImage[];
+  messages: ChatMessage[];
   onSendMessage: (text: string) => void;
   onFinalize: () => void;
   isTyping: boolean;
+  onCancelTyping?: () => void;
+  streamingSlides?: Slide[];
   onSearch: (query: string, slideIndex: number) => void;
   onGenerate: (prompt: string, slideIndex: number) => void;
+  onRegenerate: (slideIndex: number) => void;
+  onEditImage: (slideIndex: number) => void;
+  onToggleImageVersion: (slideIndex: number) => void;
   onChangeImage: (slideIndex: number) => void;
 }
 
+const INTRO_MESSAGE = "Вот первоначальный план вашей презентации. Вы можете попросить меня внести любые изменения: поменять порядок, переписать текст, добавить или удалить слайды. Когда все будет готово, нажмите 'Создать презентацию'.";
+
 const ChatWindow: React.FC<ChatWindowProps> = ({ 
   slides,
   allImages,
+  messages,
   onSendMessage, 
   onFinalize, 
   isTyping, 
+  onCancelTyping,
+  streamingSlides = [],
   onSearch, 
   onGenerate,
+  onRegenerate,
+  onEditImage,
+  onToggleImageVersion,
   onChangeImage
 }) => {
   const [input, setInput] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [lastSystemMessage, setLastSystemMessage] = useState("Вот первоначальный план вашей презентации. Вы можете попросить меня внести любые изменения: поменять порядок, переписать текст, добавить или удалить слайды. Когда все будет готово, нажмите 'Создать презентацию'.");
-
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
-  };
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [slides, isTyping]);
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages, isTyping]);
+
+  // While the director is streaming an edit, preview the storyboard with the operations that have already arrived.
+  const isStreamingPreview = isTyping && streamingSlides.length > 0;
+  const visibleSlides = isStreamingPreview ? streamingSlides : slides;
+  const lastMessage = messages[messages.length - 1];
 
-  const handleSend = () => {
-    if (input.trim() && !isTyping) {
-      onSendMessage(input.trim());
+  const send = (text: string) => {
+    if (text.trim() && !isTyping) {
+      onSendMessage(text.trim());
       setInput('');
-      setLastSystemMessage("Я обновил структуру презентации согласно вашим пожеланиям. Что-нибудь еще?");
     }
   };
 
@@ -50,37 +64,63 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         <h2 className="text-lg font-bold text-center text-white">Интерактивный редактор сценария</h2>
       </div>
 
-      <div className="flex-1 p-4 overflow-y-auto space-y-4" ref={messagesEndRef}>
-        <div className="flex gap-3 items-start justify-start">
-            <div className="w-8 h-8 rounded-full bg-indigo-500 flex items-center justify-center flex-shrink-0"><SparklesIcon className="w-5 h-5 text-white" /></div>
-            <div className="px-4 py-3 rounded-2xl max-w-2xl bg-gray-700 text-gray-200 rounded-bl-none">
-                <p>{lastSystemMessage}</p>
-            </div>
+      <div className="flex-1 flex flex-col md:flex-row min-h-0">
+        <div className="flex-1 p-4 overflow-y-auto space-y-4 md:border-r border-gray-700">
+            {isStreamingPreview && <p className="text-xs text-indigo-300">Предпросмотр правок...</p>}
+            {visibleSlides.map((slide, index) => {
+                const image = allImages.find(img => img.id === slide.imageId) || null;
+                return (
+                    <SlideCard 
+                        key={index}
+                        slide={slide}
+                        slideIndex={index}
+                        image={image}
+                        counterpart={image ? getImageCounterpart(image, allImages) : undefined}
+                        onSearch={onSearch}
+                        onGenerate={onGenerate}
+                        onRegenerate={onRegenerate}
+                        onEditImage={onEditImage}
+                        onToggleImageVersion={onToggleImageVersion}
+                        onChangeImage={onChangeImage}
+                        isProcessing={isTyping}
+                    />
+                );
+            })}
         </div>
-        
-        <div className="space-y-4">
-            {slides.map((slide, index) => (
-                <SlideCard 
-                    key={index}
-                    slide={slide}
-                    slideIndex={index}
-                    image={allImages.find(img => img.id === slide.imageId) || null}
-                    onSearch={onSearch}
-                    onGenerate={onGenerate}
-                    onChangeImage={onChangeImage}
-                    isProcessing={isTyping}
-                />
+
+        <div className="w-full md:w-96 flex-shrink-0 p-4 overflow-y-auto space-y-4 border-t md:border-t-0 border-gray-700">
+            <ModelBubble text={INTRO_MESSAGE} />
+            {messages.map((message, index) => message.role === 'user' ? (
+                <div key={index} className="flex justify-end">
+                    <div className="px-4 py-3 rounded-2xl max-w-xs bg-indigo-600 text-white rounded-br-none">
+                        <p className="text-sm whitespace-pre-wrap">{message.parts[0].text}</p>
+                    </div>
+                </div>
+            ) : (
+                <ModelBubble key={index} text={message.parts[0].text} operations={message.operations} />
             ))}
-        </div>
-        
-        {isTyping && (
-          <div className="flex items-center justify-center p-4">
-              <div className="flex items-center gap-2 text-gray-400">
+
+            {isTyping ? (
+              <div className="flex items-center gap-2 text-sm text-gray-400">
                   <RefreshIcon className="w-5 h-5 animate-spin" />
                   <span>Режиссер вносит правки...</span>
+                  {onCancelTyping && (
+                    <button onClick={onCancelTyping} className="ml-2 px-3 py-1 text-xs font-semibold text-gray-300 border border-gray-600 rounded-full hover:bg-gray-700 hover:text-white">
+                      Отменить
+                    </button>
+                  )}
+              </div>
+            ) : lastMessage?.role === 'model' && lastMessage.suggestions && lastMessage.suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-2 pl-11">
+                  {lastMessage.suggestions.map(suggestion => (
+                      <button key={suggestion} onClick={() => send(suggestion)} className="px-3 py-1.5 text-xs text-indigo-200 bg-indigo-500/20 border border-indigo-500/50 rounded-full hover:bg-indigo-500/40 transition-colors">
+                          {suggestion}
+                      </button>
+                  ))}
               </div>
-          </div>
-        )}
+            )}
+            <div ref={transcriptEndRef} />
+        </div>
       </div>
 
       <div className="p-4 border-t border-gray-700 flex items-center gap-4">
@@ -88,13 +128,13 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           type="text"
           value={input}
           onChange={(e) => setInput(e.target.value)}
-          onKeyPress={(e) => e.key === 'Enter' && handleSend()}
+          onKeyPress={(e) => e.key === 'Enter' && send(input)}
           placeholder="Дайте режиссеру общее указание (например, 'Сделай историю короче')..."
           className="flex-1 p-3 bg-gray-700 border border-gray-600 rounded-full text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
           disabled={isTyping}
         />
         <div className="flex items-center gap-2">
-            <button onClick={handleSend} disabled={isTyping || !input.trim()} className="px-6 py-3 font-semibold text-white bg-indigo-600 rounded-full hover:bg-indigo-700 disabled:bg-gray-500 transition-colors">
+            <button onClick={() => send(input)} disabled={isTyping || !input.trim()} className="px-6 py-3 font-semibold text-white bg-indigo-600 rounded-full hover:bg-indigo-700 disabled:bg-gray-500 transition-colors">
               Обсудить с режиссером
             </button>
             <button onClick={onFinalize} disabled={isTyping || slides.some(s => s.needsImage)} title={slides.some(s => s.needsImage) ? "Добавьте изображения на все слайды" : "Создать презентацию"} className="px-6 py-3 font-semibold text-white bg-green-600 rounded-full hover:bg-green-700 disabled:bg-gray-500 transition-colors">
@@ -107,17 +147,51 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 };
 
 
+interface ModelBubbleProps {
+    text: string;
+    operations?: SlideOperationOutcome[];
+}
+
+const ModelBubble: React.FC<ModelBubbleProps> = ({ text, operations }) => (
+    <div className="flex gap-3 items-start justify-start">
+        <div className="w-8 h-8 rounded-full bg-indigo-500 flex items-center justify-center flex-shrink-0"><SparklesIcon className="w-5 h-5 text-white" /></div>
+        <div className="px-4 py-3 rounded-2xl bg-gray-700 text-gray-200 rounded-bl-none min-w-0">
+            <p className="text-sm whitespace-pre-wrap">{text}</p>
+            {operations && operations.length > 0 && (
+                <ul className="mt-2 pt-2 border-t border-gray-600 space-y-1 text-xs">
+                    {operations.map((outcome, index) => (
+                        <li key={index} className="flex items-start gap-2">
+                            {outcome.applied
+                                ? <CheckCircleIcon className="w-4 h-4 flex-shrink-0 text-green-400" />
+                                : <XCircleIcon className="w-4 h-4 flex-shrink-0 text-red-400" />}
+                            <span className={outcome.applied ? 'text-gray-200' : 'text-gray-400'}>
+                                {outcome.description}
+                                {outcome.reason && <span className="block text-red-300">Пропущено: {outcome.reason}</span>}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    </div>
+);
+
+
 interface SlideCardProps {
     slide: Slide;
     slideIndex: number;
     image: UploadedImage | null;
+    counterpart?: UploadedImage; // The original or edited version of `image`
     onSearch: (query: string, slideIndex: number) => void;
     onGenerate: (prompt: string, slideIndex: number) => void;
+    onRegenerate: (slideIndex: number) => void;
+    onEditImage: (slideIndex: number) => void;
+    onToggleImageVersion: (slideIndex: number) => void;
     onChangeImage: (slideIndex: number) => void;
     isProcessing: boolean;
 }
 
-const SlideCard: React.FC<SlideCardProps> = ({ slide, slideIndex, image, onSearch, onGenerate, onChangeImage, isProcessing }) => {
+const SlideCard: React.FC<SlideCardProps> = ({ slide, slideIndex, image, counterpart, onSearch, onGenerate, onRegenerate, onEditImage, onToggleImageVersion, onChangeImage, isProcessing }) => {
     const pexelsReady = isPexelsConfigured();
     
     return (
@@ -126,7 +200,7 @@ const SlideCard: React.FC<SlideCardProps> = ({ slide, slideIndex, image, onSearc
                 {image ? (
                   <>
                     <img src={`data:${image.file.type};base64,${image.base64}`} alt={slide.title} className="w-full h-full object-cover"/>
-                    <div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                    <div className="absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center gap-1">
                         <button 
                             onClick={() => onChangeImage(slideIndex)}
                             className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-white bg-black/60 rounded-full hover:bg-black/80 backdrop-blur-sm"
@@ -134,7 +208,35 @@ const SlideCard: React.FC<SlideCardProps> = ({ slide, slideIndex, image, onSearc
                             <EditIcon className="w-4 h-4" />
                             Изменить
                         </button>
+                        {image.generation && (
+                            <button
+                                onClick={() => onRegenerate(slideIndex)}
+                                disabled={isProcessing}
+                                title={`Параметры: "${image.generation.prompt}", ${image.generation.aspectRatio}`}
+                                className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-white bg-purple-600/80 rounded-full hover:bg-purple-600 backdrop-blur-sm disabled:opacity-50"
+                            >
+                                <SparklesIcon className="w-4 h-4" />
+                                Перегенерировать
+                            </button>
+                        )}
+                        <button
+                            onClick={() => onEditImage(slideIndex)}
+                            disabled={isProcessing}
+                            className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-white bg-purple-600/80 rounded-full hover:bg-purple-600 backdrop-blur-sm disabled:opacity-50"
+                        >
+                            <SparklesIcon className="w-4 h-4" />
+                            Править с ИИ
+                        </button>
                     </div>
+                    {counterpart && (
+                        <button
+                            onClick={() => onToggleImageVersion(slideIndex)}
+                            title={image.editedFrom ? `Правка: ${image.editInstruction || ''}` : `Есть правка: ${counterpart.editInstruction || ''}`}
+                            className="absolute top-1 left-1 px-2 py-0.5 text-[10px] font-semibold text-white bg-black/70 rounded-full hover:bg-purple-600"
+                        >
+                            {image.editedFrom ? 'Правка → оригинал' : 'Оригинал → правка'}
+                        </button>
+                    )}
                   </>
                 ) : (
                     <div className="text-center p-2">
@@ -1,17 +1,47 @@
 import React, { useState } from 'react';
+import { ContentBlockedError, TruncatedResponseError } from '../services/geminiService';
 import { WarningIcon, RefreshIcon, SettingsIcon } from './icons';
 import Loader from './Loader';
 
 interface ErrorStateProps {
   error: string | null;
+  cause?: unknown; // The original error; some types get an explanation of what to do
+
   // FIX: Allow onRetry to return void or a Promise to match the type of retryAction in App.tsx.
   onRetry: () => Promise<void> | void;
   onOpenSettings: () => void;
   onRestart: () => void;
 }
 
-const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, onOpenSettings, onRestart }) => {
+const BLOCK_EXPLANATIONS: Record<ContentBlockedError['reason'], string> = {
+  safety: 'Фильтр безопасности модели счел содержимое недопустимым (например, насилие, откровенные сцены или персональные данные).',
+  recitation: 'Ответ слишком близко повторял защищенный авторским правом текст, и модель его остановила.',
+  blocklist: 'Запрос содержит слова из списка запрещенных терминов.',
+  prohibited_content: 'Запрос относится к запрещенному правилами использования содержимому.',
+  other: 'Модель отклонила запрос без уточнения причины.',
+};
+
+const getExplanation = (cause: unknown): { title: string; text: string; hint: string } | null => {
+  if (cause instanceof ContentBlockedError) {
+    return {
+      title: cause.source === 'prompt' ? 'Запрос отклонен фильтром' : 'Ответ остановлен фильтром',
+      text: BLOCK_EXPLANATIONS[cause.reason],
+      hint: 'Повтор того же запроса даст тот же результат. Измените формулировку, уберите спорные фото или переформулируйте тему.',
+    };
+  }
+  if (cause instanceof TruncatedResponseError) {
+    return {
+      title: 'Ответ не поместился в лимит длины',
+      text: 'Модель несколько раз упиралась в максимальный размер ответа, и собрать полный результат не удалось.',
+      hint: 'Уменьшите количество фото или слайдов, сократите тему или выберите для этого шага модель с большим лимитом вывода в настройках маршрутов.',
+    };
+  }
+  return null;
+};
+
+const ErrorState: React.FC<ErrorStateProps> = ({ error, cause, onRetry, onOpenSettings, onRestart }) => {
   const [isRetrying, setIsRetrying] = useState(false);
+  const explanation = getExplanation(cause);
 
   const handleRetryClick = async () => {
     setIsRetrying(true);
@@ -36,6 +66,14 @@ const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, onOpenSettings,
         {error || 'Произошла неизвестная ошибка. Пожалуйста, проверьте ваше интернет-соединение и настройки API.'}
       </p>
 
+      {explanation && (
+        <div className="mb-8 p-4 text-left bg-gray-900/50 rounded-lg border border-yellow-500/30">
+          <h3 className="font-semibold text-yellow-300 mb-1">{explanation.title}</h3>
+          <p className="text-sm text-gray-300">{explanation.text}</p>
+          <p className="text-sm text-gray-400 mt-2">{explanation.hint}</p>
+        </div>
+      )}
+
       {isRetrying ? (
         <Loader message="Повторяю операцию..." />
       ) : (
@@ -1,18 +1,50 @@
 import React from 'react';
-import { LogoIcon, SettingsIcon } from './icons';
+import { VaultState } from '../types';
+import { LogoIcon, SettingsIcon, VideoIcon, LockIcon, UnlockIcon } from './icons';
 
 interface HeaderProps {
   onRestart: () => void;
   onOpenSettings: () => void;
+  onOpenVideoJobs?: () => void;
+  activeVideoJobs?: number;
+  vaultState?: VaultState;
+  onVaultClick?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onRestart, onOpenSettings }) => (
+const VAULT_BUTTONS: Record<VaultState, { title: string; className: string }> = {
+  disabled: { title: 'Ключи хранятся без шифрования. Нажмите, чтобы задать парольную фразу', className: 'text-gray-400' },
+  unlocked: { title: 'Хранилище ключей разблокировано. Нажмите, чтобы заблокировать', className: 'text-green-400' },
+  locked: { title: 'Хранилище ключей заблокировано', className: 'text-yellow-400' },
+};
+
+const Header: React.FC<HeaderProps> = ({ onRestart, onOpenSettings, onOpenVideoJobs, activeVideoJobs = 0, vaultState = 'disabled', onVaultClick }) => (
   <header className="flex-shrink-0 flex items-center justify-between p-2 bg-white/5 backdrop-blur-lg rounded-xl shadow-lg mb-4">
     <div className="flex items-center gap-3">
       <LogoIcon className="w-8 h-8 text-indigo-400" />
       <h1 className="text-xl font-bold text-white">Мастер Презентаций ИИ</h1>
     </div>
     <div className="flex items-center gap-4">
+      {onOpenVideoJobs && (
+        <button
+          onClick={onOpenVideoJobs}
+          className="relative p-2 text-white bg-gray-700/50 rounded-lg hover:bg-gray-700 transition-colors"
+          title="Генерация видео"
+        >
+          <VideoIcon className="w-6 h-6" />
+          {activeVideoJobs > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 text-xs font-bold leading-5 text-white bg-indigo-500 rounded-full">{activeVideoJobs}</span>
+          )}
+        </button>
+      )}
+      {onVaultClick && (
+        <button
+          onClick={onVaultClick}
+          className={`p-2 bg-gray-700/50 rounded-lg hover:bg-gray-700 transition-colors ${VAULT_BUTTONS[vaultState].className}`}
+          title={VAULT_BUTTONS[vaultState].title}
+        >
+          {vaultState === 'locked' ? <LockIcon className="w-6 h-6" /> : <UnlockIcon className="w-6 h-6" />}
+        </button>
+      )}
       <button
         onClick={onRestart}
         className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors"
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { UploadedImage } from '../types';
+import { CancelledError } from '../services/geminiService';
+import { CloseIcon, EditIcon } from './icons';
+import Loader from './Loader';
+
+interface ImageEditModalProps {
+  image: UploadedImage | null;
+  onClose: () => void;
+  onEdit: (image: UploadedImage, instruction: string) => Promise<{ base64: string; mimeType: string }>;
+  onCancelEdit: () => void;
+  onSave: (source: UploadedImage, result: { base64: string; mimeType: string }, instruction: string) => void;
+}
+
+const QUICK_INSTRUCTIONS = [
+    'Убери посторонних людей на заднем плане',
+    'Убери надписи, вывески и дату в углу',
+    'Сделай небо голубым, с легкими облаками',
+    'Расширь кадр до пропорций 16:9, дорисовав края',
+];
+
+const ImageEditModal: React.FC<ImageEditModalProps> = ({ image, onClose, onEdit, onCancelEdit, onSave }) => {
+  const [instruction, setInstruction] = useState('');
+  const [result, setResult] = useState<{ base64: string; mimeType: string; instruction: string } | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInstruction('');
+    setResult(null);
+    setError(null);
+  }, [image?.id]);
+
+  if (!image) return null;
+
+  const handleEdit = async () => {
+    const trimmed = instruction.trim();
+    if (!trimmed || isEditing) return;
+    setIsEditing(true);
+    setError(null);
+    try {
+      const edited = await onEdit(image, trimmed);
+      setResult({ ...edited, instruction: trimmed });
+    } catch (e) {
+      if (!(e instanceof CancelledError)) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isEditing) onCancelEdit();
+    onClose();
+  };
+
+  return (
+    <div className="fixed top-0 left-0 right-0 bottom-[50px] bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={handleClose}>
+      <div className="w-full h-full max-w-5xl bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-gray-700 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-3">
+             <div className="p-2 bg-purple-500/20 rounded-lg"><EditIcon className="w-6 h-6 text-purple-400" /></div>
+             <h2 className="text-xl font-bold text-white">Правка фото с ИИ</h2>
+          </div>
+          <button onClick={handleClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <main className="flex-grow p-4 overflow-y-auto min-h-0 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <figure>
+              <img src={`data:${image.file.type};base64,${image.base64}`} alt="Оригинал" className="w-full max-h-80 object-contain rounded-lg bg-gray-900" />
+              <figcaption className="mt-1 text-xs text-gray-400 text-center">Оригинал</figcaption>
+            </figure>
+            <figure>
+              <div className="w-full h-full min-h-[10rem] max-h-80 flex items-center justify-center rounded-lg bg-gray-900">
+                {isEditing && <Loader message="Редактирование..." />}
+                {!isEditing && error && <p className="p-4 text-sm text-red-400 text-center">{error}</p>}
+                {!isEditing && !error && result && <img src={`data:${result.mimeType};base64,${result.base64}`} alt="Результат" className="w-full max-h-80 object-contain rounded-lg" />}
+                {!isEditing && !error && !result && <p className="p-4 text-sm text-gray-500 text-center">Здесь появится результат.</p>}
+              </div>
+              <figcaption className="mt-1 text-xs text-gray-400 text-center">{result ? `Результат: ${result.instruction}` : 'Результат'}</figcaption>
+            </figure>
+          </div>
+
+          <div>
+            <label htmlFor="image-edit-instruction" className="block text-sm font-medium text-gray-300 mb-1">Что изменить</label>
+            <textarea id="image-edit-instruction" rows={2} value={instruction} onChange={e => setInstruction(e.target.value)} disabled={isEditing} placeholder="например: убери человека в красной куртке справа" className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm" />
+            <div className="mt-2 flex flex-wrap gap-2">
+              {QUICK_INSTRUCTIONS.map(quick => (
+                <button key={quick} onClick={() => setInstruction(quick)} disabled={isEditing} className="px-3 py-1 text-xs text-gray-300 border border-gray-600 rounded-full hover:bg-gray-700 disabled:opacity-50">
+                  {quick}
+                </button>
+              ))}
+            </div>
+          </div>
+        </main>
+
+        <footer className="flex-shrink-0 p-4 border-t border-gray-700 flex items-center justify-end gap-3">
+          {isEditing ? (
+            <button onClick={onCancelEdit} className="px-4 py-2 text-sm font-semibold text-gray-300 border border-gray-600 rounded-lg hover:bg-gray-700">Отменить</button>
+          ) : (
+            <button onClick={handleEdit} disabled={!instruction.trim()} className="px-4 py-2 font-semibold text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:bg-gray-500">
+              {result ? 'Попробовать снова' : 'Применить'}
+            </button>
+          )}
+          {result && !isEditing && (
+            <button onClick={() => onSave(image, result, result.instruction)} className="px-6 py-2 font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+              Сохранить как новое фото
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditModal;
@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { ImageAspectRatio, ImageGenerationParams } from '../types';
+import { IMAGE_STYLE_PRESETS, CancelledError } from '../services/geminiService';
+import { CloseIcon, SparklesIcon, CheckCircleIcon } from './icons';
+import Loader from './Loader';
+
+interface ImageGenerationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialParams: ImageGenerationParams;
+  onGenerateVariants: (params: ImageGenerationParams) => Promise<string[]>;
+  onCancelGeneration: () => void;
+  onSelect: (base64: string, params: ImageGenerationParams) => void;
+}
+
+const ASPECT_RATIOS: ImageAspectRatio[] = ['16:9', '4:3', '1:1', '3:4', '9:16'];
+
+const ImageGenerationModal: React.FC<ImageGenerationModalProps> = ({ isOpen, onClose, initialParams, onGenerateVariants, onCancelGeneration, onSelect }) => {
+  const [params, setParams] = useState<ImageGenerationParams>(initialParams);
+  // Variants keep the parameters they were generated with, in case the form was edited afterwards.
+  const [variants, setVariants] = useState<{ base64: string; params: ImageGenerationParams }[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setParams(initialParams);
+      setVariants([]);
+      setSelectedIndex(0);
+      setError(null);
+    }
+  }, [isOpen, initialParams]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<ImageGenerationParams>) => setParams(prev => ({ ...prev, ...changes }));
+
+  const handleGenerate = async () => {
+    if (!params.prompt.trim() || isGenerating) return;
+    const requested = { ...params, prompt: params.prompt.trim(), negativePrompt: params.negativePrompt.trim() };
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const images = await onGenerateVariants(requested);
+      setVariants(images.map(base64 => ({ base64, params: requested })));
+      setSelectedIndex(0);
+    } catch (e) {
+      if (!(e instanceof CancelledError)) setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isGenerating) onCancelGeneration();
+    onClose();
+  };
+
+  const selected = variants[selectedIndex];
+
+  return (
+    <div className="fixed top-0 left-0 right-0 bottom-[50px] bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={handleClose}>
+      <div className="w-full h-full max-w-4xl bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-gray-700 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-3">
+             <div className="p-2 bg-purple-500/20 rounded-lg"><SparklesIcon className="w-6 h-6 text-purple-400" /></div>
+             <h2 className="text-xl font-bold text-white">Генерация изображения</h2>
+          </div>
+          <button onClick={handleClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <main className="flex-grow p-4 overflow-y-auto flex flex-col md:flex-row gap-6 min-h-0">
+          <div className="w-full md:w-80 flex-shrink-0 space-y-4">
+            <div>
+              <label htmlFor="image-prompt" className="block text-sm font-medium text-gray-300 mb-1">Описание</label>
+              <textarea id="image-prompt" rows={4} value={params.prompt} onChange={e => update({ prompt: e.target.value })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm" />
+            </div>
+            <div>
+              <p className="block text-sm font-medium text-gray-300 mb-1">Стиль</p>
+              <div className="flex flex-wrap gap-2">
+                {IMAGE_STYLE_PRESETS.map(preset => (
+                  <button key={preset.id} onClick={() => update({ stylePreset: preset.id })} title={preset.prefix || 'Промпт без изменений'} className={`px-3 py-1 text-xs rounded-full border transition-colors ${params.stylePreset === preset.id ? 'bg-purple-600 border-purple-500 text-white' : 'border-gray-600 text-gray-300 hover:bg-gray-700'}`}>
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label htmlFor="image-negative-prompt" className="block text-sm font-medium text-gray-300 mb-1">Чего не должно быть</label>
+              <input id="image-negative-prompt" type="text" value={params.negativePrompt} onChange={e => update({ negativePrompt: e.target.value })} placeholder="например: текст, водяные знаки" className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="image-aspect-ratio" className="block text-sm font-medium text-gray-300 mb-1">Пропорции</label>
+                <select id="image-aspect-ratio" value={params.aspectRatio} onChange={e => update({ aspectRatio: e.target.value as ImageAspectRatio })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm">
+                  {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="image-variant-count" className="block text-sm font-medium text-gray-300 mb-1">Вариантов</label>
+                <select id="image-variant-count" value={params.variantCount} onChange={e => update({ variantCount: parseInt(e.target.value, 10) })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm">
+                  {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+                </select>
+              </div>
+            </div>
+            <button onClick={handleGenerate} disabled={isGenerating || !params.prompt.trim()} className="w-full px-4 py-2 font-semibold text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:bg-gray-500 transition-colors">
+              {variants.length > 0 ? 'Сгенерировать заново' : 'Сгенерировать'}
+            </button>
+          </div>
+
+          <div className="flex-grow min-w-0 flex flex-col">
+            {isGenerating && (
+              <div className="flex flex-col items-center justify-center h-full gap-4">
+                <Loader message={`Генерация (${params.variantCount})...`} />
+                <button onClick={onCancelGeneration} className="px-3 py-1 text-xs font-semibold text-gray-300 border border-gray-600 rounded-full hover:bg-gray-700 hover:text-white">Отменить</button>
+              </div>
+            )}
+            {!isGenerating && error && <div className="flex items-center justify-center h-full text-red-400 text-center">{error}</div>}
+            {!isGenerating && !error && variants.length === 0 && (
+              <div className="flex items-center justify-center h-full text-gray-500 text-center">
+                <p>Настройте параметры и нажмите «Сгенерировать».</p>
+              </div>
+            )}
+            {!isGenerating && !error && variants.length > 0 && (
+              <div className={`grid gap-4 ${variants.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {variants.map((variant, index) => (
+                  <div key={index} className="relative rounded-lg overflow-hidden cursor-pointer group bg-gray-900" onClick={() => setSelectedIndex(index)}>
+                    <img src={`data:image/png;base64,${variant.base64}`} alt={`Вариант ${index + 1}`} className="w-full h-full object-contain" />
+                    <div className={`absolute inset-0 transition-all ${selectedIndex === index ? 'ring-4 ring-inset ring-purple-500' : 'bg-black/40 group-hover:bg-black/20'}`}></div>
+                    {selectedIndex === index && <CheckCircleIcon className="absolute top-2 right-2 w-7 h-7 text-white bg-purple-600 rounded-full" />}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </main>
+
+        {selected && !isGenerating && (
+          <footer className="flex-shrink-0 p-4 border-t border-gray-700 flex items-center justify-between">
+            <p className="text-sm text-gray-400">Выбран вариант {selectedIndex + 1} из {variants.length}</p>
+            <button onClick={() => onSelect(selected.base64, selected.params)} className="px-6 py-2 font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+              Поставить на слайд
+            </button>
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageGenerationModal;
@@ -1,21 +1,41 @@
 
 import React from 'react';
 import { UploadedImage } from '../types';
-import { CloseIcon, ImageIcon } from './icons';
+import { CloseIcon, ImageIcon, EditIcon } from './icons';
 
 interface ImagePickerModalProps {
   isOpen: boolean;
   onClose: () => void;
   images: UploadedImage[];
   onSelect: (imageId: string) => void;
+  onEdit: (imageId: string) => void;
 }
 
-const ImagePickerModal: React.FC<ImagePickerModalProps> = ({ isOpen, onClose, images, onSelect }) => {
+const ImagePickerModal: React.FC<ImagePickerModalProps> = ({ isOpen, onClose, images, onSelect, onEdit }) => {
   if (!isOpen) return null;
 
   const userImages = images.filter(img => img.source === 'user');
   const aiImages = images.filter(img => img.source === 'ai');
 
+  const renderTile = (image: UploadedImage, alt: string) => (
+    <div key={image.id} 
+        className="relative aspect-square rounded-lg overflow-hidden cursor-pointer group"
+        onClick={() => onSelect(image.id)}>
+        <img src={`data:${image.file.type};base64,${image.base64}`} alt={alt} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
+        <div className="absolute inset-0 bg-black/40 group-hover:bg-indigo-900/40 transition-colors"></div>
+        {image.editedFrom && (
+            <span title={image.editInstruction} className="absolute top-2 left-2 px-2 py-0.5 text-[10px] font-semibold text-white bg-purple-600/80 rounded-full">Правка ИИ</span>
+        )}
+        <button
+            onClick={e => { e.stopPropagation(); onEdit(image.id); }}
+            title="Править с ИИ"
+            className="absolute bottom-2 right-2 flex items-center gap-1 px-2 py-1 text-xs font-semibold text-white bg-black/60 rounded-full opacity-0 group-hover:opacity-100 hover:bg-purple-600 transition-opacity"
+        >
+            <EditIcon className="w-3 h-3" /> Править
+        </button>
+    </div>
+  );
+
   return (
     <div className="fixed top-0 left-0 right-0 bottom-[50px] bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
       <div className="w-full h-full max-w-4xl bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 flex flex-col" onClick={e => e.stopPropagation()}>
@@ -34,14 +54,7 @@ const ImagePickerModal: React.FC<ImagePickerModalProps> = ({ isOpen, onClose, im
                  <div>
                     <h3 className="text-lg font-semibold text-gray-300 mb-3">Ваши фотографии</h3>
                      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                        {userImages.map(image => (
-                            <div key={image.id} 
-                                className="relative aspect-square rounded-lg overflow-hidden cursor-pointer group"
-                                onClick={() => onSelect(image.id)}>
-                                <img src={`data:${image.file.type};base64,${image.base64}`} alt={image.file.name} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
-                                <div className="absolute inset-0 bg-black/40 group-hover:bg-indigo-900/40 transition-colors"></div>
-                            </div>
-                        ))}
+                        {userImages.map(image => renderTile(image, image.file.name))}
                     </div>
                 </div>
             )}
@@ -50,14 +63,7 @@ const ImagePickerModal: React.FC<ImagePickerModalProps> = ({ isOpen, onClose, im
                  <div className="mt-6">
                     <h3 className="text-lg font-semibold text-gray-300 mb-3">Сгенерированные ИИ</h3>
                      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                        {aiImages.map(image => (
-                            <div key={image.id} 
-                                className="relative aspect-square rounded-lg overflow-hidden cursor-pointer group"
-                                onClick={() => onSelect(image.id)}>
-                                <img src={`data:${image.file.type};base64,${image.base64}`} alt={image.query || 'ai-image'} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
-                                <div className="absolute inset-0 bg-black/40 group-hover:bg-indigo-900/40 transition-colors"></div>
-                            </div>
-                        ))}
+                        {aiImages.map(image => renderTile(image, image.query || 'ai-image'))}
                     </div>
                 </div>
             )}
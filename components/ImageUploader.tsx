@@ -1,16 +1,21 @@
-import React, { useState } from 'react';
-import { UploadedImage } from '../types';
+import React, { useState, useMemo } from 'react';
+import { UploadedImage, AppSettings } from '../types';
 import ImageSelectionTray from './ImageSelectionTray';
-import { SparklesIcon } from './icons';
+import AnalysisEstimatePanel from './AnalysisEstimatePanel';
+import { SparklesIcon, RefreshIcon } from './icons';
 
 interface ImageUploaderProps {
   onUpload: (images: UploadedImage[]) => void;
   initialPlan: string | null;
+  isPlanStreaming?: boolean;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onUpload, initialPlan }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onUpload, initialPlan, isPlanStreaming = false, settings, onSettingsChange }) => {
   const [allImages, setAllImages] = useState<UploadedImage[]>([]);
   const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set());
+  const selectedImages = useMemo(() => allImages.filter((_, index) => selectedIndexes.has(index)), [allImages, selectedIndexes]);
 
   const handleAddImages = (newImages: UploadedImage[]) => {
     setAllImages(prev => [...prev, ...newImages]);
@@ -18,10 +23,13 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onUpload, initialPlan })
 
   const handleStartAnalysis = () => {
     if (selectedIndexes.size > 0) {
-      const selectedImages = allImages.filter((_, index) => selectedIndexes.has(index));
       onUpload(selectedImages);
     }
   };
+
+  const handleLimitImages = (count: number) => {
+    setSelectedIndexes(new Set([...selectedIndexes].sort((a, b) => a - b).slice(0, count)));
+  };
   
   const MarkdownRenderer: React.FC<{ text: string }> = ({ text }) => {
     const renderHtml = () => {
@@ -50,6 +58,12 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onUpload, initialPlan })
             <p className="text-sm text-gray-400 mb-4 flex-shrink-0">Следуйте этому плану, чтобы подобрать наиболее подходящие фотографии для вашей истории.</p>
             <div className="flex-grow overflow-y-auto pr-3 text-gray-300 custom-scrollbar">
                 {initialPlan ? <MarkdownRenderer text={initialPlan} /> : <p>Загрузка плана...</p>}
+                {isPlanStreaming && (
+                    <div className="flex items-center gap-2 mt-3 text-sm text-indigo-300">
+                        <RefreshIcon className="w-4 h-4 animate-spin" />
+                        <span>Режиссер дописывает план...</span>
+                    </div>
+                )}
             </div>
         </div>
         
@@ -69,6 +83,13 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onUpload, initialPlan })
                     Анализировать ({selectedIndexes.size})
                 </button>
             </div>
+
+            <AnalysisEstimatePanel
+                images={selectedImages}
+                settings={settings}
+                onSettingsChange={onSettingsChange}
+                onLimitImages={handleLimitImages}
+            />
             
             <div className="flex-grow min-h-0">
                 <ImageSelectionTray
@@ -0,0 +1,60 @@
+import React from 'react';
+import { AppSettings, ModelRoute, UsageOperation } from '../types';
+
+interface ModelRoutesSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (newSettings: AppSettings) => void;
+}
+
+const ROUTES: { id: UsageOperation; name: string }[] = [
+    { id: 'plan', name: 'Первоначальный план' },
+    { id: 'analysis', name: 'Анализ изображений' },
+    { id: 'storyboard', name: 'Синтез сценария' },
+    { id: 'chat', name: 'Чат-правки' },
+    { id: 'music', name: 'Подбор музыки' },
+    { id: 'ssml', name: 'SSML' },
+    { id: 'image', name: 'Генерация изображений' },
+    { id: 'imageEdit', name: 'Правка фотографий' },
+    { id: 'video', name: 'Генерация видео' },
+];
+
+const ModelRoutesSettings: React.FC<ModelRoutesSettingsProps> = ({ settings, onSettingsChange }) => {
+    const routes = settings.modelRoutes;
+    const isGemini = settings.llmProvider === 'gemini';
+
+    const handleRouteChange = (id: UsageOperation, field: keyof ModelRoute, value: string) => {
+        const current = routes[id] || { model: '', fallbackModel: '' };
+        onSettingsChange({ ...settings, modelRoutes: { ...routes, [id]: { ...current, [field]: value.trim() } } });
+    };
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-white">Маршруты моделей</h3>
+            <p className="text-sm text-gray-400 mt-1">Отдельная модель Gemini для каждой задачи. Пустое поле - модель по умолчанию. Если основная модель не найдена, используется резервная. Текстовые модели проверяются перед каждой операцией, модели изображений и видео - при первом запросе.</p>
+            {!isGemini && (
+                <p className="text-xs text-yellow-400 mt-2">Выбран другой провайдер: текстовые задачи используют его модель, здесь действуют только маршруты изображений и видео.</p>
+            )}
+            <div className="mt-4 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="w-40 flex-shrink-0">Задача</span>
+                    <span className="flex-1">Модель</span>
+                    <span className="flex-1">Резервная модель</span>
+                </div>
+                {ROUTES.map(({ id, name }) => {
+                    const route = routes[id] || { model: '', fallbackModel: '' };
+                    const isMedia = id === 'image' || id === 'imageEdit' || id === 'video';
+                    const disabled = !isGemini && !isMedia;
+                    return (
+                        <div key={id} className={`flex items-center gap-2 ${disabled ? 'opacity-40' : ''}`}>
+                            <span className="w-40 flex-shrink-0 text-sm text-gray-300">{name}</span>
+                            <input type="text" value={route.model} disabled={disabled} onChange={e => handleRouteChange(id, 'model', e.target.value)} placeholder={isMedia ? 'по умолчанию' : settings.geminiModel} className="flex-1 min-w-0 p-1 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-xs" />
+                            <input type="text" value={route.fallbackModel} disabled={disabled} onChange={e => handleRouteChange(id, 'fallbackModel', e.target.value)} placeholder="нет" className="flex-1 min-w-0 p-1 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-xs" />
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ModelRoutesSettings;
@@ -10,7 +10,11 @@ const messages = [
   "Готовлю режиссерский план..."
 ];
 
-const PlanGenerationLoader: React.FC = () => {
+interface PlanGenerationLoaderProps {
+  onCancel?: () => void;
+}
+
+const PlanGenerationLoader: React.FC<PlanGenerationLoaderProps> = ({ onCancel }) => {
   const [messageIndex, setMessageIndex] = useState(0);
 
   useEffect(() => {
@@ -34,6 +38,11 @@ const PlanGenerationLoader: React.FC = () => {
       <p key={currentMessage} className="mt-2 text-lg text-gray-300 font-mono transition-opacity duration-500 animate-text-in">
         {currentMessage}
       </p>
+      {onCancel && (
+        <button onClick={onCancel} className="mt-8 px-5 py-2 text-sm font-semibold text-gray-300 border border-gray-600 rounded-full hover:bg-gray-800 hover:text-white">
+          Отменить
+        </button>
+      )}
 
       <style>{`
         .animate-fade-in-slow { animation: fade-in 1s ease-in-out; }
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { AppSettings, PromptTemplateId, PromptTemplateOverrides } from '../types';
+import { PROMPT_TEMPLATES, renderTemplatePreview } from '../services/promptTemplates';
+import { RefreshIcon } from './icons';
+
+interface PromptTemplateEditorProps {
+  settings: AppSettings;
+  onSettingsChange: (newSettings: AppSettings) => void;
+}
+
+type OverrideScope = 'global' | 'project';
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ settings, onSettingsChange }) => {
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>('initialPlan');
+    const [scope, setScope] = useState<OverrideScope>(settings.activeProject ? 'project' : 'global');
+    const [showPreview, setShowPreview] = useState(false);
+
+    const { global, projects } = settings.promptOverrides;
+    const project = settings.activeProject;
+    const definition = PROMPT_TEMPLATES[selectedId];
+    const projectOverrides: PromptTemplateOverrides = (project && projects[project]) || {};
+    const isProjectScope = scope === 'project' && !!project;
+
+    const scopeOverride = isProjectScope ? projectOverrides[selectedId] : global[selectedId];
+    // Without an override at this scope, the editor starts from the template the scope would inherit.
+    const inheritedTemplate = isProjectScope ? global[selectedId] ?? definition.template : definition.template;
+    const editorValue = scopeOverride ?? inheritedTemplate;
+
+    const knownVariables = new Set(definition.variables.map(v => v.name));
+    const unknownVariables = Array.from(new Set(Array.from(editorValue.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1])))
+        .filter(name => !knownVariables.has(name));
+
+    const updateOverrides = (overrides: PromptTemplateOverrides) => {
+        const promptOverrides = isProjectScope
+            ? { global, projects: { ...projects, [project]: overrides } }
+            : { global: overrides, projects };
+        onSettingsChange({ ...settings, promptOverrides });
+    };
+
+    const handleTemplateChange = (value: string) => {
+        updateOverrides({ ...(isProjectScope ? projectOverrides : global), [selectedId]: value });
+    };
+
+    const handleReset = () => {
+        const { [selectedId]: _, ...rest } = isProjectScope ? projectOverrides : global;
+        updateOverrides(rest);
+    };
+
+    const getSourceLabel = (id: PromptTemplateId): string | null => {
+        if (project && projectOverrides[id] !== undefined) return 'проект';
+        if (global[id] !== undefined) return 'глобально';
+        return null;
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-lg font-semibold text-white">Шаблоны промптов</h3>
+                <p className="text-sm text-gray-400 mt-1">Переменные в фигурных скобках, например <code className="bg-gray-700 px-1 rounded">{'{{topic}}'}</code>, подставляются при вызове. Переопределения проекта важнее глобальных и синхронизируются через Gist вместе с остальными настройками.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="active-project" className="block text-sm font-medium text-gray-300 mb-1">Активный проект</label>
+                    <input
+                        id="active-project"
+                        type="text"
+                        list="prompt-projects"
+                        value={project}
+                        onChange={e => onSettingsChange({ ...settings, activeProject: e.target.value.trim() })}
+                        placeholder="Без проекта"
+                        className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm"
+                    />
+                    <datalist id="prompt-projects">
+                        {Object.keys(projects).map(name => <option key={name} value={name} />)}
+                    </datalist>
+                </div>
+                <div>
+                    <span className="block text-sm font-medium text-gray-300 mb-1">Изменять</span>
+                    <div className="flex bg-gray-700 rounded-md p-1">
+                        <button onClick={() => setScope('global')} className={`flex-1 px-2 py-1 text-sm rounded ${!isProjectScope ? 'bg-indigo-600 text-white' : 'text-gray-300'}`}>Глобально</button>
+                        <button onClick={() => setScope('project')} disabled={!project} className={`flex-1 px-2 py-1 text-sm rounded disabled:opacity-40 ${isProjectScope ? 'bg-indigo-600 text-white' : 'text-gray-300'}`}>Для проекта</button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {TEMPLATE_IDS.map(id => {
+                    const source = getSourceLabel(id);
+                    return (
+                        <button
+                            key={id}
+                            onClick={() => setSelectedId(id)}
+                            className={`px-3 py-1.5 text-xs font-semibold rounded-md ${selectedId === id ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            {PROMPT_TEMPLATES[id].name}
+                            {source && <span className="ml-1 text-[10px] text-yellow-300">({source})</span>}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm text-gray-400">{definition.description}</p>
+                    <button
+                        onClick={handleReset}
+                        disabled={scopeOverride === undefined}
+                        className="flex items-center gap-1 text-xs text-indigo-400 hover:underline disabled:text-gray-500 disabled:no-underline"
+                    >
+                        <RefreshIcon className="w-3 h-3" />
+                        Сбросить
+                    </button>
+                </div>
+                <textarea
+                    value={editorValue}
+                    onChange={e => handleTemplateChange(e.target.value)}
+                    rows={14}
+                    className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 font-mono text-xs custom-scrollbar"
+                />
+                {unknownVariables.length > 0 && (
+                    <p className="text-xs text-yellow-400 mt-1">Неизвестные переменные не будут подставлены: {unknownVariables.map(v => `{{${v}}}`).join(', ')}</p>
+                )}
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                    {definition.variables.map(variable => (
+                        <span key={variable.name} className="px-2 py-1 bg-gray-900/50 rounded text-gray-400" title={variable.description}>
+                            <code className="text-indigo-300">{`{{${variable.name}}}`}</code> {variable.description}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <button onClick={() => setShowPreview(p => !p)} className="text-sm text-indigo-400 hover:underline">
+                    {showPreview ? 'Скрыть предпросмотр' : 'Показать предпросмотр'}
+                </button>
+                {showPreview && (
+                    <pre className="mt-2 p-3 bg-gray-900/50 rounded-lg text-xs text-gray-300 whitespace-pre-wrap max-h-80 overflow-y-auto custom-scrollbar">
+                        {renderTemplatePreview(selectedId, editorValue)}
+                    </pre>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplateEditor;
@@ -128,6 +128,12 @@ const QuotaErrorModal: React.FC<QuotaErrorModalProps> = ({ isOpen, failedKeys, o
                         </div>
                     </div>
 
+                    {failedKeys.some(key => (key.status === 'exhausted' || key.status === 'rate_limited') && key.resetTime) && (
+                        <p className="mt-4 text-xs text-gray-400 text-center">
+                            Ключи будут проверены повторно по истечении таймера. Как только один из них заработает, операция продолжится автоматически.
+                        </p>
+                    )}
+
                     <div className="flex flex-col sm:flex-row items-center justify-center gap-4 mt-6">
                         <button
                             onClick={onRetry}
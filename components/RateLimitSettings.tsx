@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { AppSettings, RateLimit } from '../types';
+import { XCircleIcon } from './icons';
+
+interface RateLimitSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (newSettings: AppSettings) => void;
+}
+
+const RateLimitSettings: React.FC<RateLimitSettingsProps> = ({ settings, onSettingsChange }) => {
+    const [newModel, setNewModel] = useState('');
+    const limits = settings.rateLimits;
+
+    const handleLimitChange = (model: string, field: keyof RateLimit, value: string) => {
+        const current = limits[model] || { requestsPerMinute: 0, tokensPerMinute: 0 };
+        onSettingsChange({ ...settings, rateLimits: { ...limits, [model]: { ...current, [field]: Math.max(0, parseInt(value, 10) || 0) } } });
+    };
+
+    const handleAddModel = () => {
+        const model = newModel.trim();
+        if (!model || limits[model]) return;
+        onSettingsChange({ ...settings, rateLimits: { ...limits, [model]: { requestsPerMinute: 0, tokensPerMinute: 0 } } });
+        setNewModel('');
+    };
+
+    const handleRemoveModel = (model: string) => {
+        const { [model]: _, ...rest } = limits;
+        onSettingsChange({ ...settings, rateLimits: rest });
+    };
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-white">Лимиты запросов</h3>
+            <p className="text-sm text-gray-400 mt-1">Ограничения применяются к каждому ключу отдельно для каждой модели. Лишние запросы ждут в очереди, а не получают ошибку 429. 0 - без ограничения.</p>
+            <div className="mt-4 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="flex-grow">Модель</span>
+                    <span className="w-24 text-center">Запросов/мин</span>
+                    <span className="w-24 text-center">Токенов/мин</span>
+                    <span className="w-6"></span>
+                </div>
+                {(Object.entries(limits) as [string, RateLimit][]).map(([model, limit]) => (
+                    <div key={model} className="flex items-center gap-2">
+                        <span className="flex-grow font-mono text-xs text-gray-300 truncate">{model}</span>
+                        <input type="number" min="0" step="1" value={limit.requestsPerMinute} onChange={e => handleLimitChange(model, 'requestsPerMinute', e.target.value)} className="w-24 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+                        <input type="number" min="0" step="1000" value={limit.tokensPerMinute} onChange={e => handleLimitChange(model, 'tokensPerMinute', e.target.value)} className="w-24 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+                        <button onClick={() => handleRemoveModel(model)} className="p-1 rounded-full text-gray-400 hover:bg-red-500/50 hover:text-red-300" title="Удалить">
+                            <XCircleIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <div className="flex gap-2">
+                    <input type="text" value={newModel} onChange={e => setNewModel(e.target.value)} onKeyPress={e => e.key === 'Enter' && handleAddModel()} placeholder="Имя модели" className="flex-grow p-1 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-xs" />
+                    <button onClick={handleAddModel} disabled={!newModel.trim()} className="px-3 py-1 text-xs font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500">Добавить</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RateLimitSettings;
@@ -1,11 +1,18 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppSettings, GithubUser, SyncStatus } from '../types';
-import { CloseIcon, KeyIcon, SpeakerIcon, GlobeIcon, UserIcon } from './icons';
+import { AppSettings, GithubUser, SyncStatus, LlmProviderId, FakeFailureMode, VaultState } from '../types';
+import { DEFAULT_PROVIDER_BASE_URLS } from '../services/llmProvider';
+import { CloseIcon, KeyIcon, SpeakerIcon, GlobeIcon, UserIcon, ChartIcon, EditIcon, SyncIcon } from './icons';
 import ApiKeyManager from './ApiKeyManager';
+import UsageDashboard from './UsageDashboard';
+import RateLimitSettings from './RateLimitSettings';
+import AnalysisSettings from './AnalysisSettings';
+import ModelRoutesSettings from './ModelRoutesSettings';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import TrafficRecorderPanel from './TrafficRecorderPanel';
 import SyncStatusIndicator from './SyncStatusIndicator';
 
-type SettingsTab = 'api' | 'voice' | 'integrations' | 'account';
+type SettingsTab = 'api' | 'usage' | 'prompts' | 'voice' | 'integrations' | 'developer' | 'account';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -16,6 +23,9 @@ interface SettingsPanelProps {
   onLogout: () => void;
   syncStatus: SyncStatus;
   initialTab: SettingsTab;
+  vaultState: VaultState;
+  onEnableVault: () => void;
+  onDisableVault: () => void;
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
@@ -27,6 +37,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onLogout,
   syncStatus,
   initialTab,
+  vaultState,
+  onEnableVault,
+  onDisableVault,
 }) => {
   const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab);
 
@@ -50,10 +63,34 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onSettingsChange({ ...settings, geminiEndpoint: e.target.value });
   };
 
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const llmProvider = e.target.value as LlmProviderId;
+    onSettingsChange({ ...settings, llmProvider, llmBaseUrl: DEFAULT_PROVIDER_BASE_URLS[llmProvider] });
+  };
+
+  const providerOptions: { id: LlmProviderId; name: string }[] = [
+    { id: 'gemini', name: 'Google Gemini (пул ключей)' },
+    { id: 'openai', name: 'OpenAI-совместимый API' },
+    { id: 'ollama', name: 'Локальный Ollama' },
+    { id: 'fake', name: 'Офлайн-заглушка (для разработки)' },
+  ];
+
+  const fakeFailureOptions: { id: FakeFailureMode; name: string }[] = [
+    { id: 'none', name: 'Без ошибок' },
+    { id: 'all_keys_failed', name: 'Все ключи недействительны (AllKeysFailedError)' },
+    { id: 'config', name: 'Модель не найдена (ConfigError)' },
+    { id: 'rate_limit', name: 'Превышен лимит (429)' },
+    { id: 'server', name: 'Ошибка сервера (5xx)' },
+    { id: 'safety', name: 'Блокировка фильтром (SAFETY)' },
+  ];
+
   const tabs: { id: SettingsTab; name: string; icon: React.ReactNode }[] = [
     { id: 'api', name: 'API Ключи', icon: <KeyIcon className="w-5 h-5" /> },
+    { id: 'usage', name: 'Расход', icon: <ChartIcon className="w-5 h-5" /> },
+    { id: 'prompts', name: 'Промпты', icon: <EditIcon className="w-5 h-5" /> },
     { id: 'voice', name: 'Голос', icon: <SpeakerIcon className="w-5 h-5" /> },
     { id: 'integrations', name: 'Интеграции', icon: <GlobeIcon className="w-5 h-5" /> },
+    { id: 'developer', name: 'Запись', icon: <SyncIcon className="w-5 h-5" /> },
     { id: 'account', name: 'Аккаунт', icon: <UserIcon className="w-5 h-5" /> },
   ];
 
@@ -83,23 +120,69 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         <main className="flex-grow p-6 overflow-y-auto custom-scrollbar">
             {activeTab === 'api' && (
                 <div className="space-y-8">
-                    <ApiKeyManager keys={settings.apiKeys} onKeysChange={(newKeys) => onSettingsChange({...settings, apiKeys: newKeys})} settings={settings} />
+                    <ApiKeyManager keys={settings.apiKeys} onKeysChange={(newKeys) => onSettingsChange({...settings, apiKeys: newKeys})} onStrategyChange={(keyStrategy) => onSettingsChange({...settings, keyStrategy})} settings={settings} />
                     <div>
                         <h3 className="text-lg font-semibold text-white">Конфигурация модели</h3>
                         <p className="text-sm text-gray-400 mt-1">Изменяйте эти значения, только если вы знаете, что делаете.</p>
                         <div className="mt-4 space-y-4">
                             <div>
-                                <label htmlFor="gemini-model" className="block text-sm font-medium text-gray-300 mb-1">Gemini Model Name</label>
-                                <input id="gemini-model" type="text" value={settings.geminiModel} onChange={handleModelChange} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
-                            </div>
-                            <div>
-                                <label htmlFor="gemini-endpoint" className="block text-sm font-medium text-gray-300 mb-1">Gemini API Endpoint</label>
-                                <input id="gemini-endpoint" type="text" value={settings.geminiEndpoint} onChange={handleEndpointChange} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
+                                <label htmlFor="llm-provider" className="block text-sm font-medium text-gray-300 mb-1">Провайдер ИИ-режиссера</label>
+                                <select id="llm-provider" value={settings.llmProvider} onChange={handleProviderChange} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm">
+                                    {providerOptions.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                                </select>
                             </div>
+                            {settings.llmProvider === 'gemini' ? (
+                                <>
+                                    <div>
+                                        <label htmlFor="gemini-model" className="block text-sm font-medium text-gray-300 mb-1">Gemini Model Name</label>
+                                        <input id="gemini-model" type="text" value={settings.geminiModel} onChange={handleModelChange} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="gemini-endpoint" className="block text-sm font-medium text-gray-300 mb-1">Gemini API Endpoint</label>
+                                        <input id="gemini-endpoint" type="text" value={settings.geminiEndpoint} onChange={handleEndpointChange} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
+                                    </div>
+                                </>
+                            ) : settings.llmProvider === 'fake' ? (
+                                <div>
+                                    <label htmlFor="fake-failure" className="block text-sm font-medium text-gray-300 mb-1">Имитировать ошибку</label>
+                                    <select id="fake-failure" value={settings.fakeFailureMode} onChange={e => onSettingsChange({ ...settings, fakeFailureMode: e.target.value as FakeFailureMode })} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm">
+                                        {fakeFailureOptions.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                                    </select>
+                                    <p className="text-xs text-gray-500 mt-1">Ответы и изображения-заглушки генерируются локально, ключи и сеть не нужны. Выбранная ошибка возникает при каждом запросе, пока ее не отключить; ключи при этом не меняются.</p>
+                                </div>
+                            ) : (
+                                <>
+                                    <div>
+                                        <label htmlFor="llm-base-url" className="block text-sm font-medium text-gray-300 mb-1">Base URL</label>
+                                        <input id="llm-base-url" type="text" value={settings.llmBaseUrl} onChange={e => onSettingsChange({ ...settings, llmBaseUrl: e.target.value })} placeholder={DEFAULT_PROVIDER_BASE_URLS[settings.llmProvider]} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="llm-model" className="block text-sm font-medium text-gray-300 mb-1">Model Name</label>
+                                        <input id="llm-model" type="text" value={settings.llmModel} onChange={e => onSettingsChange({ ...settings, llmModel: e.target.value })} placeholder={settings.llmProvider === 'ollama' ? 'llava' : 'gpt-4o-mini'} className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
+                                        <p className="text-xs text-gray-500 mt-1">Для анализа фотографий модель должна поддерживать изображения.</p>
+                                    </div>
+                                    {settings.llmProvider === 'openai' && (
+                                        <div>
+                                            <label htmlFor="llm-api-key" className="block text-sm font-medium text-gray-300 mb-1">API Key</label>
+                                            <input id="llm-api-key" type="password" value={settings.llmApiKey || ''} onChange={e => onSettingsChange({ ...settings, llmApiKey: e.target.value })} placeholder="Не требуется для локальных серверов" className="w-full p-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-sm" />
+                                        </div>
+                                    )}
+                                    <p className="text-xs text-gray-500">Генерация изображений и видео по-прежнему использует ключи Gemini.</p>
+                                </>
+                            )}
                         </div>
                     </div>
+                    <ModelRoutesSettings settings={settings} onSettingsChange={onSettingsChange} />
+                    <AnalysisSettings settings={settings} onSettingsChange={onSettingsChange} />
+                    <RateLimitSettings settings={settings} onSettingsChange={onSettingsChange} />
                 </div>
             )}
+            {activeTab === 'usage' && (
+                <UsageDashboard settings={settings} onSettingsChange={onSettingsChange} />
+            )}
+            {activeTab === 'prompts' && (
+                <PromptTemplateEditor settings={settings} onSettingsChange={onSettingsChange} />
+            )}
             {activeTab === 'voice' && (
                  <div><h3 className="text-lg font-semibold text-white">Настройки голоса (в разработке)</h3></div>
             )}
@@ -115,6 +198,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     </div>
                 </div>
             )}
+            {activeTab === 'developer' && (
+                <TrafficRecorderPanel />
+            )}
             {activeTab === 'account' && githubUser && (
                 <div className="space-y-6">
                     <div className="flex items-center gap-4 p-4 bg-gray-900/50 rounded-lg">
@@ -131,6 +217,21 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                         </div>
                        
                     </div>
+                    <div>
+                        <h4 className="font-semibold text-gray-300 mb-2">Шифрование ключей</h4>
+                        <div className="p-3 bg-gray-900/50 rounded-lg flex items-center justify-between gap-4">
+                            <p className="text-sm text-gray-400">
+                                {vaultState === 'disabled'
+                                    ? 'Ключи API и токен GitHub хранятся в браузере и в Gist открытым текстом.'
+                                    : 'Ключи API и токен GitHub зашифрованы парольной фразой (PBKDF2 + AES-GCM).'}
+                            </p>
+                            {vaultState === 'disabled' ? (
+                                <button onClick={onEnableVault} className="flex-shrink-0 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Включить</button>
+                            ) : (
+                                <button onClick={onDisableVault} className="flex-shrink-0 px-4 py-2 text-sm font-semibold text-gray-300 border border-gray-600 rounded-md hover:bg-gray-700">Отключить</button>
+                            )}
+                        </div>
+                    </div>
                     <button onClick={onLogout} className="w-full px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-700">
                         Выйти
                     </button>
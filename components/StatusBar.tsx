@@ -1,7 +1,7 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useSyncExternalStore } from 'react';
 import { useLogger } from '../context/LoggerContext';
 import { LogEntry, ApiKey } from '../types';
-import { getKeyPoolState } from '../services/geminiService';
+import { getKeyPoolState, getRateLimitQueueState, subscribeRateLimitQueue } from '../services/geminiService';
 import { CheckCircleIcon, WarningIcon, XCircleIcon, CopyIcon, TrashIcon, ClockIcon, DownloadIcon } from './icons';
 
 interface StatusBarProps {
@@ -76,6 +76,7 @@ const StatusBar: React.FC<StatusBarProps> = ({ onOpenLogViewer }) => {
     const { logs, clearLogs, setDetailedLog, setDetailedError } = useLogger();
     const scrollRef = useRef<HTMLDivElement>(null);
     const [copied, setCopied] = useState(false);
+    const queueState = useSyncExternalStore(subscribeRateLimitQueue, getRateLimitQueueState);
 
     useEffect(() => {
         if (scrollRef.current) {
@@ -180,6 +181,12 @@ const StatusBar: React.FC<StatusBarProps> = ({ onOpenLogViewer }) => {
             </div>
             
              <div className="flex items-center gap-2 flex-shrink-0">
+                {queueState.depth > 0 && (
+                    <span className="flex items-center gap-1 px-2 py-1 text-xs font-mono text-blue-300 bg-blue-900/40 border border-blue-700/50 rounded-md" title={`Запросы ждут лимита запросов/токенов в минуту. Ожидание ~${Math.ceil(queueState.waitMs / 1000)}с`}>
+                        <ClockIcon className="w-4 h-4" />
+                        queued: {queueState.depth}
+                    </span>
+                )}
                  <button onClick={handleClear} title="Очистить лог (требует подтверждения)" className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full">
                     <TrashIcon className="w-5 h-5" />
                 </button>
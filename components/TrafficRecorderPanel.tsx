@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { TrafficMode } from '../types';
+import { getTrafficMode, setTrafficMode, getTrafficEntries, clearTrafficEntries, exportFixture, importFixture } from '../services/trafficRecorder';
+import { useLogger } from '../context/LoggerContext';
+import { DownloadIcon, PaperclipIcon, TrashIcon } from './icons';
+
+const MODE_OPTIONS: { id: TrafficMode; name: string; description: string }[] = [
+    { id: 'off', name: 'Выключено', description: 'Запросы уходят в сеть как обычно.' },
+    { id: 'record', name: 'Запись', description: 'Каждый запрос к ИИ, геокодеру и Pexels выполняется и сохраняется вместе с ответом.' },
+    { id: 'replay', name: 'Воспроизведение', description: 'Ответы берутся из записи, сеть и квота не используются. Нужен хотя бы один API-ключ (любой).' },
+];
+
+const TrafficRecorderPanel: React.FC = () => {
+    useLogger(); // Re-render as requests are recorded or replayed.
+    const [mode, setMode] = useState<TrafficMode>(getTrafficMode());
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const entries = getTrafficEntries();
+    const operationCounts = entries.reduce<Record<string, number>>((acc, entry) => {
+        acc[entry.operation] = (acc[entry.operation] || 0) + 1;
+        return acc;
+    }, {});
+
+    const handleModeChange = (newMode: TrafficMode) => {
+        setTrafficMode(newMode);
+        setMode(newMode);
+    };
+
+    const handleDownload = () => {
+        const now = new Date();
+        const pad = (n: number) => n.toString().padStart(2, '0');
+        const filename = `traffic-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}.json`;
+        const blob = new Blob([exportFixture()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            await importFixture(await file.text());
+            setImportError(null);
+            handleModeChange('replay');
+        } catch (error) {
+            setImportError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Удалить все записанные запросы?')) return;
+        await clearTrafficEntries();
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-lg font-semibold text-white">Запись и воспроизведение трафика</h3>
+                <p className="text-sm text-gray-400 mt-1">Позволяет показать или отладить весь сценарий без сети и расхода квоты. Запросы сопоставляются по операции и хэшу тела запроса; API-ключи в запись не попадают.</p>
+            </div>
+
+            <div className="space-y-2">
+                {MODE_OPTIONS.map(option => (
+                    <label key={option.id} className={`flex items-start gap-3 p-3 rounded-lg cursor-pointer ${mode === option.id ? 'bg-indigo-600/30 border border-indigo-500' : 'bg-gray-900/50 border border-transparent hover:bg-gray-700/50'}`}>
+                        <input type="radio" name="traffic-mode" checked={mode === option.id} onChange={() => handleModeChange(option.id)} className="mt-1" />
+                        <div>
+                            <p className="text-sm font-semibold text-white">{option.name}</p>
+                            <p className="text-xs text-gray-400">{option.description}</p>
+                        </div>
+                    </label>
+                ))}
+            </div>
+
+            <div>
+                <h4 className="font-semibold text-gray-300 mb-2 text-sm">Запись: {entries.length} ответов</h4>
+                {entries.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3 text-xs">
+                        {Object.entries(operationCounts).map(([operation, count]) => (
+                            <span key={operation} className="px-2 py-1 bg-gray-900/50 rounded text-gray-400 font-mono">{operation}: {count}</span>
+                        ))}
+                    </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={handleDownload} disabled={entries.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500">
+                        <DownloadIcon className="w-4 h-4" />
+                        Скачать запись
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold bg-gray-700 rounded-md hover:bg-gray-600">
+                        <PaperclipIcon className="w-4 h-4" />
+                        Загрузить запись
+                    </button>
+                    <button onClick={handleClear} disabled={entries.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-red-300 bg-gray-700 rounded-md hover:bg-red-500/50 disabled:opacity-40">
+                        <TrashIcon className="w-4 h-4" />
+                        Очистить
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+                </div>
+                {importError && <p className="text-xs text-red-400 mt-2">{importError}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default TrafficRecorderPanel;
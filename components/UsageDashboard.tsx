@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AppSettings, UsageEntry, ModelPrice, UsageOperation } from '../types';
+import { getUsageEntries, clearUsage, summarizeDailyUsage, summarizeUsageBy, UsageTotals } from '../services/usageLedger';
+import { getAnalysisCacheStats, clearAnalysisCache, AnalysisCacheStats } from '../services/analysisCache';
+import { RefreshIcon, TrashIcon, XCircleIcon } from './icons';
+
+interface UsageDashboardProps {
+  settings: AppSettings;
+  onSettingsChange: (newSettings: AppSettings) => void;
+}
+
+const OPERATION_NAMES: Record<UsageOperation, string> = {
+    plan: 'План',
+    analysis: 'Анализ кадров',
+    storyboard: 'Сценарий',
+    chat: 'Чат-правки',
+    music: 'Музыка',
+    ssml: 'SSML',
+    image: 'Изображения',
+    imageEdit: 'Правка фото',
+    video: 'Видео',
+};
+
+const formatTokens = (tokens: number): string => {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+    return String(tokens);
+};
+
+const formatBytes = (bytes: number): string => {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+    return `${bytes} Б`;
+};
+
+const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const BreakdownTable: React.FC<{ title: string; rows: { group: string; totals: UsageTotals }[] }> = ({ title, rows }) => (
+    <div>
+        <h4 className="font-semibold text-gray-300 mb-2 text-sm">{title}</h4>
+        <div className="bg-gray-900/50 rounded-lg overflow-hidden">
+            <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                    <tr>
+                        <th className="text-left p-2 font-medium"></th>
+                        <th className="text-right p-2 font-medium">Запросы</th>
+                        <th className="text-right p-2 font-medium">Вход</th>
+                        <th className="text-right p-2 font-medium">Выход</th>
+                        <th className="text-right p-2 font-medium">Стоимость</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ group, totals }) => (
+                        <tr key={group} className="border-t border-gray-800 text-gray-300">
+                            <td className="p-2 font-mono truncate max-w-[10rem]" title={group}>{group}</td>
+                            <td className="p-2 text-right">{totals.requests}</td>
+                            <td className="p-2 text-right">{formatTokens(totals.promptTokens)}</td>
+                            <td className="p-2 text-right">{formatTokens(totals.candidatesTokens)}</td>
+                            <td className="p-2 text-right">{formatCost(totals.cost)}</td>
+                        </tr>
+                    ))}
+                    {rows.length === 0 && (
+                        <tr><td colSpan={5} className="p-3 text-center text-gray-500">Нет данных</td></tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ settings, onSettingsChange }) => {
+    const [entries, setEntries] = useState<UsageEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [newPriceModel, setNewPriceModel] = useState('');
+    const [cacheStats, setCacheStats] = useState<AnalysisCacheStats | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+            setEntries(await getUsageEntries(since));
+        } catch (e) {
+            console.error("Failed to load usage ledger:", e);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const loadCacheStats = useCallback(async () => {
+        try {
+            setCacheStats(await getAnalysisCacheStats());
+        } catch (e) {
+            console.error("Failed to load analysis cache stats:", e);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadEntries();
+        loadCacheStats();
+    }, [loadEntries, loadCacheStats]);
+
+    const prices = settings.modelPrices;
+    const daily = summarizeDailyUsage(entries, prices);
+    const maxDailyTokens = Math.max(1, ...daily.map(d => d.totalTokens));
+    const total = summarizeUsageBy(entries, prices, () => 'total')[0]?.totals;
+
+    const handleClear = async () => {
+        if (!window.confirm('Удалить всю историю расхода токенов?')) return;
+        await clearUsage();
+        setEntries([]);
+    };
+
+    const handleClearCache = async () => {
+        if (!window.confirm('Очистить кэш анализа изображений? Повторный анализ тех же фото снова потратит квоту.')) return;
+        await clearAnalysisCache();
+        loadCacheStats();
+    };
+
+    const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+        const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+        onSettingsChange({ ...settings, modelPrices: { ...prices, [model]: { ...current, [field]: parseFloat(value) || 0 } } });
+    };
+
+    const handleAddPrice = () => {
+        const model = newPriceModel.trim();
+        if (!model || prices[model]) return;
+        onSettingsChange({ ...settings, modelPrices: { ...prices, [model]: { inputPerMillion: 0, outputPerMillion: 0 } } });
+        setNewPriceModel('');
+    };
+
+    const handleRemovePrice = (model: string) => {
+        const { [model]: _, ...rest } = prices;
+        onSettingsChange({ ...settings, modelPrices: rest });
+    };
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="text-lg font-semibold text-white">Расход токенов</h3>
+                    <p className="text-sm text-gray-400 mt-1">Статистика за последние 30 дней. Хранится локально в браузере.</p>
+                </div>
+                <div className="flex items-center gap-1">
+                    <button onClick={loadEntries} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white" title="Обновить">
+                        <RefreshIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button onClick={handleClear} className="p-2 rounded-full text-gray-400 hover:bg-red-500/50 hover:text-red-300" title="Очистить историю">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+                <div className="p-3 bg-gray-900/50 rounded-lg">
+                    <p className="text-xs text-gray-500">Запросов</p>
+                    <p className="text-xl font-bold text-white">{total?.requests ?? 0}</p>
+                </div>
+                <div className="p-3 bg-gray-900/50 rounded-lg">
+                    <p className="text-xs text-gray-500">Токенов</p>
+                    <p className="text-xl font-bold text-white">{formatTokens(total?.totalTokens ?? 0)}</p>
+                </div>
+                <div className="p-3 bg-gray-900/50 rounded-lg">
+                    <p className="text-xs text-gray-500">Оценка стоимости</p>
+                    <p className="text-xl font-bold text-white">{formatCost(total?.cost ?? 0)}</p>
+                </div>
+            </div>
+
+            <div>
+                <h4 className="font-semibold text-gray-300 mb-2 text-sm">По дням (14 дней)</h4>
+                <div className="flex items-end gap-1 h-32 p-2 bg-gray-900/50 rounded-lg">
+                    {daily.map(day => (
+                        <div key={day.day} className="flex-1 h-full flex flex-col justify-end group relative" title={`${day.day}: ${formatTokens(day.totalTokens)} токенов, ${formatCost(day.cost)}`}>
+                            <div className="w-full bg-purple-500/80 rounded-t-sm" style={{ height: `${(day.candidatesTokens / maxDailyTokens) * 100}%` }}></div>
+                            <div className="w-full bg-indigo-500/80" style={{ height: `${(day.promptTokens / maxDailyTokens) * 100}%` }}></div>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-between text-[10px] text-gray-500 mt-1 px-2">
+                    <span>{daily[0]?.day.slice(5)}</span>
+                    <span className="flex items-center gap-3">
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 bg-indigo-500 rounded-sm"></span>Вход</span>
+                        <span className="flex items-center gap-1"><span className="w-2 h-2 bg-purple-500 rounded-sm"></span>Выход</span>
+                    </span>
+                    <span>{daily[daily.length - 1]?.day.slice(5)}</span>
+                </div>
+            </div>
+
+            <BreakdownTable title="По операциям" rows={summarizeUsageBy(entries, prices, e => OPERATION_NAMES[e.operation] || e.operation)} />
+            <BreakdownTable title="По ключам" rows={summarizeUsageBy(entries, prices, e => e.maskedKey)} />
+            <BreakdownTable title="По моделям" rows={summarizeUsageBy(entries, prices, e => e.model)} />
+            <BreakdownTable title="По проектам" rows={summarizeUsageBy(entries, prices, e => e.projectId || 'без проекта')} />
+
+            <div>
+                <h4 className="font-semibold text-gray-300 mb-1 text-sm">Цены моделей</h4>
+                <p className="text-xs text-gray-500 mb-2">USD за 1 млн токенов. Используются только для оценки.</p>
+                <div className="space-y-2">
+                    {(Object.entries(prices) as [string, ModelPrice][]).map(([model, price]) => (
+                        <div key={model} className="flex items-center gap-2">
+                            <span className="flex-grow font-mono text-xs text-gray-300 truncate">{model}</span>
+                            <input type="number" min="0" step="0.01" value={price.inputPerMillion} onChange={e => handlePriceChange(model, 'inputPerMillion', e.target.value)} title="Вход" className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+                            <input type="number" min="0" step="0.01" value={price.outputPerMillion} onChange={e => handlePriceChange(model, 'outputPerMillion', e.target.value)} title="Выход" className="w-20 p-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs" />
+                            <button onClick={() => handleRemovePrice(model)} className="p-1 rounded-full text-gray-400 hover:bg-red-500/50 hover:text-red-300" title="Удалить">
+                                <XCircleIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <input type="text" value={newPriceModel} onChange={e => setNewPriceModel(e.target.value)} onKeyPress={e => e.key === 'Enter' && handleAddPrice()} placeholder="Имя модели" className="flex-grow p-1 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-xs" />
+                        <button onClick={handleAddPrice} disabled={!newPriceModel.trim()} className="px-3 py-1 text-xs font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-gray-500">Добавить</button>
+                    </div>
+                </div>
+            </div>
+
+            <div>
+                <h4 className="font-semibold text-gray-300 mb-1 text-sm">Кэш анализа изображений</h4>
+                <p className="text-xs text-gray-500 mb-2">Повторно загруженные фото не анализируются заново, если модель и шаблон промпта не изменились.</p>
+                <div className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg">
+                    <span className="text-sm text-gray-300">
+                        {cacheStats ? `${cacheStats.entries} кадров · ${formatBytes(cacheStats.bytes)}` : '...'}
+                    </span>
+                    <button onClick={handleClearCache} disabled={!cacheStats?.entries} className="flex items-center gap-1 px-3 py-1 text-xs font-semibold text-red-300 bg-red-900/40 border border-red-700/50 rounded-md hover:bg-red-800/50 disabled:opacity-40">
+                        <TrashIcon className="w-3 h-3" />
+                        Очистить кэш
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
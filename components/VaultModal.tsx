@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { LockIcon } from './icons';
+import Loader from './Loader';
+
+interface VaultModalProps {
+  mode: 'unlock' | 'create' | null;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onClose?: () => void; // Only for 'create'; unlocking cannot be skipped
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const VaultModal: React.FC<VaultModalProps> = ({ mode, onSubmit, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  }, [mode]);
+
+  if (!mode) return null;
+  const isCreate = mode === 'create';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBusy) return;
+    if (isCreate && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Парольная фраза должна быть не короче ${MIN_PASSPHRASE_LENGTH} символов.`);
+      return;
+    }
+    if (isCreate && passphrase !== confirmation) {
+      setError('Парольные фразы не совпадают.');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className={`fixed inset-0 z-[60] flex items-center justify-center p-4 ${isCreate ? 'bg-black/60 backdrop-blur-sm' : 'bg-gray-900'}`} onClick={isCreate && !isBusy ? onClose : undefined}>
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 p-8 text-center" onClick={e => e.stopPropagation()}>
+        <LockIcon className="w-12 h-12 text-indigo-400 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-white mb-2">{isCreate ? 'Шифрование ключей' : 'Хранилище заблокировано'}</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          {isCreate
+            ? 'Ключи API и токен GitHub будут храниться в браузере и в Gist только в зашифрованном виде. Пароль понадобится при каждом запуске.'
+            : 'Введите парольную фразу, чтобы расшифровать ключи API и токены.'}
+        </p>
+
+        <div className="space-y-3">
+          <input type="password" autoFocus value={passphrase} onChange={e => setPassphrase(e.target.value)} disabled={isBusy} placeholder="Парольная фраза" autoComplete={isCreate ? 'new-password' : 'current-password'} className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-center text-white" />
+          {isCreate && (
+            <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} disabled={isBusy} placeholder="Повторите парольную фразу" autoComplete="new-password" className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-center text-white" />
+          )}
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          {isCreate && <p className="text-xs text-yellow-300/80">Забытую парольную фразу восстановить невозможно: ключи придется добавить заново.</p>}
+          <button type="submit" disabled={isBusy || !passphrase} className="w-full flex items-center justify-center gap-2 px-4 py-3 font-bold bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:bg-gray-500 text-white">
+            {isBusy ? <Loader message={isCreate ? 'Шифрование...' : 'Проверка...'} /> : (isCreate ? 'Зашифровать' : 'Разблокировать')}
+          </button>
+          {isCreate && (
+            <button type="button" onClick={onClose} disabled={isBusy} className="text-sm text-gray-400 hover:text-white hover:underline">
+              Отмена
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default VaultModal;
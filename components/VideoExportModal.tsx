@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
+import { VideoJob } from '../types';
 import { CloseIcon, VideoIcon } from './icons';
 
 interface VideoExportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (style: string) => void;
+  onGenerate: (style: string, mode: VideoJob['mode']) => void;
 }
 
 const videoStyles = [
@@ -15,11 +16,12 @@ const videoStyles = [
 
 const VideoExportModal: React.FC<VideoExportModalProps> = ({ isOpen, onClose, onGenerate }) => {
   const [selectedStyle, setSelectedStyle] = useState<string>(videoStyles[0].id);
+  const [mode, setMode] = useState<VideoJob['mode']>('single');
 
   if (!isOpen) return null;
 
   const handleGenerate = () => {
-    onGenerate(selectedStyle);
+    onGenerate(selectedStyle, mode);
   };
 
   return (
@@ -60,6 +62,17 @@ const VideoExportModal: React.FC<VideoExportModalProps> = ({ isOpen, onClose, on
             ))}
           </div>
 
+          <div className="grid grid-cols-2 gap-2 mb-6">
+            <button onClick={() => setMode('single')} className={`p-3 text-left rounded-lg border-2 transition-all ${mode === 'single' ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 hover:bg-gray-700/50'}`}>
+              <p className="text-sm font-semibold text-white">Одно видео</p>
+              <p className="text-xs text-gray-400">Один ролик по всему сценарию.</p>
+            </button>
+            <button onClick={() => setMode('perSlide')} className={`p-3 text-left rounded-lg border-2 transition-all ${mode === 'perSlide' ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700 hover:bg-gray-700/50'}`}>
+              <p className="text-sm font-semibold text-white">Клип на каждый слайд</p>
+              <p className="text-xs text-gray-400">Клипы по фото слайдов, склеенные по порядку.</p>
+            </button>
+          </div>
+
           <button onClick={handleGenerate} className="w-full px-4 py-3 font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 transition-transform hover:scale-105">
             Начать генерацию
           </button>
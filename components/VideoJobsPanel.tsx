@@ -0,0 +1,131 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { VideoJob, VideoJobStatus } from '../types';
+import { getVideoJobs, getVideoJobResult, subscribeVideoJobs, cancelVideoJob, removeVideoJob, reloadVideoJobResult } from '../services/videoJobs';
+import { CloseIcon, DownloadIcon, CastIcon, VideoIcon, TrashIcon, RefreshIcon } from './icons';
+
+interface VideoJobsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<VideoJobStatus, { label: string; className: string }> = {
+  pending: { label: 'В очереди', className: 'bg-gray-600 text-gray-200' },
+  running: { label: 'Генерация', className: 'bg-indigo-600 text-white' },
+  downloading: { label: 'Сборка', className: 'bg-indigo-600 text-white' },
+  done: { label: 'Готово', className: 'bg-green-600 text-white' },
+  failed: { label: 'Ошибка', className: 'bg-red-600 text-white' },
+  cancelled: { label: 'Отменено', className: 'bg-gray-600 text-gray-300' },
+};
+
+/**
+ * Live view of the persisted video job list; re-renders on every job change.
+ */
+export const useVideoJobs = (): VideoJob[] => useSyncExternalStore(subscribeVideoJobs, getVideoJobs);
+
+const JobCard: React.FC<{ job: VideoJob }> = ({ job }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [castError, setCastError] = useState(false);
+  const result = getVideoJobResult(job.id);
+  const doneClips = job.clips.filter(clip => clip.status === 'done').length;
+  const isActive = job.status === 'running' || job.status === 'downloading';
+  const status = STATUS_LABELS[job.status];
+
+  const handleCast = () => {
+    try {
+      // @ts-ignore - Remote Playback API is not in every DOM lib
+      videoRef.current?.remote.prompt();
+    } catch (error) {
+      console.error("Could not start remote playback:", error);
+      setCastError(true);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 border border-gray-700 rounded-xl">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-semibold text-white">
+            {job.mode === 'perSlide' ? `Клипы по слайдам (${job.clips.length})` : 'Видео по всему сценарию'}
+            <span className="ml-2 text-xs font-normal text-gray-400">стиль: {job.style}</span>
+          </p>
+          <p className="text-xs text-gray-500">{new Date(job.createdAt).toLocaleString('ru-RU')}</p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>
+            {isActive && <RefreshIcon className="inline w-3 h-3 mr-1 animate-spin" />}
+            {status.label}{job.status === 'running' ? ` ${doneClips}/${job.clips.length}` : ''}
+          </span>
+          {isActive ? (
+            <button onClick={() => cancelVideoJob(job.id)} className="px-2 py-1 text-xs text-gray-300 border border-gray-600 rounded-full hover:bg-gray-700">Отменить</button>
+          ) : (
+            <button onClick={() => removeVideoJob(job.id)} title="Удалить из списка" className="p-1 text-gray-400 rounded-full hover:bg-gray-700 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+          )}
+        </div>
+      </div>
+
+      {job.clips.length > 1 && (
+        <div className="mt-3 flex gap-1">
+          {job.clips.map((clip, index) => (
+            <div key={index} title={`${clip.title}: ${STATUS_LABELS[clip.status].label}${clip.error ? ` - ${clip.error}` : ''}`} className={`h-1.5 flex-1 rounded-full ${clip.status === 'done' ? 'bg-green-500' : clip.status === 'failed' ? 'bg-red-500' : clip.status === 'running' ? 'bg-indigo-500 animate-pulse' : 'bg-gray-600'}`} />
+          ))}
+        </div>
+      )}
+
+      {job.error && <p className="mt-2 text-sm text-red-400">{job.error}</p>}
+
+      {job.status === 'done' && (result ? (
+        <div className="mt-3">
+          <video ref={videoRef} src={result.url} controls className="w-full aspect-video bg-black rounded-lg border border-gray-600">
+            Ваш браузер не поддерживает тег video.
+          </video>
+          <div className="mt-3 flex items-center gap-3">
+            <a href={result.url} download={result.mimeType.includes('webm') ? 'presentation.webm' : 'presentation.mp4'} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-full hover:bg-indigo-700">
+              <DownloadIcon className="w-5 h-5" /> Скачать
+            </a>
+            {'remote' in HTMLMediaElement.prototype && (
+              <button onClick={handleCast} title="Транслировать на другое устройство" className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-gray-600 rounded-full hover:bg-gray-700">
+                <CastIcon className="w-5 h-5" /> Cast
+              </button>
+            )}
+            {castError && <span className="text-xs text-red-400">Не удалось запустить трансляцию.</span>}
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => reloadVideoJobResult(job.id)} className="mt-3 inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-full hover:bg-indigo-700">
+          <DownloadIcon className="w-5 h-5" /> Загрузить видео
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const VideoJobsPanel: React.FC<VideoJobsPanelProps> = ({ isOpen, onClose }) => {
+  const jobs = useVideoJobs();
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed top-0 left-0 right-0 bottom-[50px] bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full h-full max-w-3xl bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-gray-700 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500/20 rounded-lg"><VideoIcon className="w-6 h-6 text-indigo-400" /></div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Генерация видео</h2>
+              <p className="text-xs text-gray-400">Задачи сохраняются и продолжаются после перезагрузки страницы.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+        <main className="flex-grow p-4 overflow-y-auto space-y-4">
+          {jobs.length === 0
+            ? <p className="text-center text-gray-500 mt-8">Видео еще не создавались.</p>
+            : jobs.map(job => <JobCard key={job.id} job={job} />)}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default VideoJobsPanel;
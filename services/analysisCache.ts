@@ -0,0 +1,38 @@
+import { AnalysisCacheEntry } from '../types';
+import { ANALYSIS_CACHE_STORE, withStore } from './db';
+
+export interface AnalysisCacheStats {
+    entries: number;
+    bytes: number; // Approximate size of the stored JSON
+}
+
+/**
+ * Looks up a cached analysis. Entries produced by another model or by a prompt version outside `promptVersions` are treated as misses.
+ * Failures are logged to the console only: the cache must never block an analysis.
+ */
+export const getCachedAnalysis = async (hash: string, model: string, promptVersions: string[]): Promise<AnalysisCacheEntry | null> => {
+    try {
+        const entry = await withStore<AnalysisCacheEntry | undefined>(ANALYSIS_CACHE_STORE, 'readonly', store => store.get(hash));
+        if (!entry || entry.model !== model || !promptVersions.includes(entry.promptVersion)) return null;
+        return entry;
+    } catch (e) {
+        console.error("Failed to read analysis cache:", e);
+        return null;
+    }
+};
+
+export const putCachedAnalysis = async (entry: AnalysisCacheEntry): Promise<void> => {
+    try {
+        await withStore(ANALYSIS_CACHE_STORE, 'readwrite', store => store.put(entry));
+    } catch (e) {
+        console.error("Failed to write analysis cache:", e);
+    }
+};
+
+export const getAnalysisCacheStats = async (): Promise<AnalysisCacheStats> => {
+    const entries = await withStore<AnalysisCacheEntry[]>(ANALYSIS_CACHE_STORE, 'readonly', store => store.getAll());
+    const bytes = entries.reduce((sum, entry) => sum + new Blob([JSON.stringify(entry)]).size, 0);
+    return { entries: entries.length, bytes };
+};
+
+export const clearAnalysisCache = (): Promise<undefined> => withStore(ANALYSIS_CACHE_STORE, 'readwrite', store => store.clear());
@@ -0,0 +1,64 @@
+const DB_NAME = 'presentation-master';
+const DB_VERSION = 3;
+
+export const USAGE_STORE = 'usage';
+export const ANALYSIS_CACHE_STORE = 'analysisCache';
+export const TRAFFIC_FIXTURE_STORE = 'trafficFixtures';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates or upgrades) the application's IndexedDB database.
+ * The connection is shared by all services.
+ */
+export const openAppDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(USAGE_STORE)) {
+                const store = db.createObjectStore(USAGE_STORE, { keyPath: 'id', autoIncrement: true });
+                store.createIndex('timestamp', 'timestamp');
+            }
+            if (!db.objectStoreNames.contains(ANALYSIS_CACHE_STORE)) {
+                db.createObjectStore(ANALYSIS_CACHE_STORE, { keyPath: 'hash' });
+            }
+            if (!db.objectStoreNames.contains(TRAFFIC_FIXTURE_STORE)) {
+                db.createObjectStore(TRAFFIC_FIXTURE_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest into a promise.
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Runs a single-store operation inside its own transaction.
+ * @param storeName The object store to open.
+ * @param mode Transaction mode.
+ * @param operation Receives the store and returns the request whose result is resolved.
+ */
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openAppDb();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(operation(transaction.objectStore(storeName)));
+};
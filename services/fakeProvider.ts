@@ -0,0 +1,265 @@
+import { ApiKey, FakeFailureMode, ImageAspectRatio, Slide, SlideOperation } from '../types';
+import logger from './logger';
+import { LlmProvider, LlmRequest, LlmResponse, AllKeysFailedError, ConfigError, ContentBlockedError, cancellableDelay } from './llmProvider';
+
+// --- Offline fake provider ---
+// Answers every director prompt locally and deterministically, so the whole flow runs without keys or network.
+
+export const FAKE_MODEL = 'fake-director';
+const FAKE_ENDPOINT = 'fake://local';
+const RESPONSE_DELAY_MS = 400;
+const STREAM_CHUNK_DELAY_MS = 30;
+const STREAM_CHUNK_SIZE = 24;
+
+const MOODS = ['cinematic', 'upbeat', 'reflective', 'ambient', 'inspiring', 'calm', 'epic', 'playful'];
+const SCENES = ['общий план', 'крупный план', 'детальный снимок', 'панорама', 'портрет в кадре', 'вечерний свет'];
+const SECTION_NAMES = ['Вступление', 'Знакомство', 'Основная часть', 'Кульминация', 'Заключение'];
+
+/**
+ * FNV-1a over the input; the same inputs always pick the same phrases.
+ */
+const seedOf = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number, offset: number = 0): T => items[(seed + offset) % items.length];
+
+const topicWords = (topic: string): string[] =>
+    topic.split(/[^\p{L}\p{N}-]+/u).filter(word => word.length > 3).slice(0, 5);
+
+const withSimulatedKeys = (keys: ApiKey[], update: Partial<ApiKey>): ApiKey[] => {
+    const base: ApiKey[] = keys.length > 0 ? keys : [{ value: 'fake-simulated-key-0000', status: 'active' }];
+    return base.map(key => ({ ...key, ...update, lastChecked: Date.now() }));
+};
+
+/**
+ * Throws the error class selected for simulation, mirroring what the real Gemini pipeline would raise.
+ * @param mode The failure to simulate.
+ * @param keys The current key pool, copied into the error so the quota modal has something to show.
+ */
+export const throwSimulatedFailure = (mode: FakeFailureMode, keys: ApiKey[]) => {
+    if (mode === 'none') return;
+    logger.logWarning(`Fake provider is simulating a failure: ${mode}`, { model: FAKE_MODEL, endpoint: FAKE_ENDPOINT });
+    switch (mode) {
+        case 'config':
+            throw new ConfigError('Модель или конечная точка не найдены (имитация).', FAKE_MODEL, FAKE_ENDPOINT);
+        case 'all_keys_failed':
+            throw new AllKeysFailedError(
+                'Не удалось выполнить запрос. Все доступные ключи вернули ошибку (имитация).',
+                withSimulatedKeys(keys, { status: 'invalid', resetTime: undefined, lastError: 'API key not valid. Please pass a valid API key. (simulated)' }),
+                true
+            );
+        case 'rate_limit':
+            throw new AllKeysFailedError(
+                'Все ключи превысили лимит запросов (имитация 429).',
+                withSimulatedKeys(keys, { status: 'rate_limited', resetTime: Date.now() + 60 * 1000, lastError: '429 RESOURCE_EXHAUSTED: Quota exceeded for generate_content_free_tier_requests (simulated)' }),
+                true
+            );
+        case 'server':
+            throw new AllKeysFailedError(
+                'Сервер модели недоступен (имитация 5xx).',
+                withSimulatedKeys(keys, { status: 'rate_limited', resetTime: Date.now() + 30 * 1000, lastError: '503 UNAVAILABLE: The model is overloaded. Please try again later. (simulated)' }),
+                true
+            );
+        case 'safety':
+            throw new ContentBlockedError('Запрос отклонен фильтром модели (SAFETY, имитация).', 'safety', 'prompt');
+    }
+};
+
+const buildPlan = (topic: string): string => {
+    const seed = seedOf(topic);
+    const words = topicWords(topic);
+    const sectionCount = 3 + (seed % 3);
+    const sections = Array.from({ length: sectionCount }, (_, i) => {
+        const name = i === sectionCount - 1 ? SECTION_NAMES[SECTION_NAMES.length - 1] : SECTION_NAMES[i];
+        const focus = words[i % Math.max(1, words.length)] || topic;
+        return `## ${name}\nРассказываем о теме «${focus}» так, чтобы зритель захотел узнать больше.\n- ${pick(SCENES, seed, i)}\n- ${pick(SCENES, seed, i + 2)}`;
+    });
+    return `${sections.join('\n\n')}\n\nЗагрузите фотографии, которые подходят к этому плану, и я соберу из них историю о теме «${topic}».`;
+};
+
+const buildFrameAnalysis = (request: LlmRequest) => {
+    const { frameNumber = 1, storySummary = '', location } = request.context || {};
+    const seed = seedOf(`${frameNumber}:${location || ''}`);
+    const place = location ? ` (${location})` : '';
+    const imageDescription = `Кадр ${frameNumber}: ${pick(SCENES, seed)}${place}.`;
+    const updatedStory = [storySummary, `Затем история продолжается: ${pick(SCENES, seed)}${place}.`].filter(Boolean).join(' ');
+    return { imageDescription, updatedStory };
+};
+
+const buildBatchAnalysis = (request: LlmRequest) => {
+    const { frameNumber = 1, storySummary = '', images = [] } = request.context || {};
+    const frames = images.map((image, i) => {
+        const place = image.description ? ` (${image.description})` : '';
+        return { imageId: image.id, imageDescription: `Кадр ${frameNumber + i}: ${pick(SCENES, seedOf(image.id))}${place}.` };
+    });
+    const updatedStory = [storySummary, `Затем история продолжается: ${frames.map(f => pick(SCENES, seedOf(f.imageId))).join(', ')}.`].filter(Boolean).join(' ');
+    return { frames, updatedStory };
+};
+
+const buildMergedStory = (descriptions: string[]): string =>
+    descriptions.length > 0
+        ? `История начинается так: ${descriptions[0]} ${descriptions.slice(1).map((d, i) => `${i === descriptions.length - 2 ? 'И в финале' : 'Затем'}: ${d}`).join(' ')}`.trim()
+        : 'История пока не началась.';
+
+const buildStoryboard = (request: LlmRequest): Slide[] => {
+    const { images = [], speakerCount = 2 } = request.context || {};
+    const frames = images.length > 0 ? images : [{ id: '', description: 'Общий вид' }];
+    return frames.map((image, i) => ({
+        title: `Часть ${i + 1}`,
+        script: `${image.description || 'Новый кадр нашей истории.'} Это ${i === 0 ? 'начало' : i === frames.length - 1 ? 'финал' : 'продолжение'} рассказа.`,
+        imageId: image.id || null,
+        speaker: i % Math.max(1, speakerCount),
+        textOverlay: '',
+        podcastScript: '',
+        needsImage: !image.id,
+        suggestions: image.id ? undefined : { search: 'landscape', generate: 'cinematic landscape' },
+    }));
+};
+
+const buildChatEdit = (request: LlmRequest) => {
+    const { slides = [], userMessage = '' } = request.context || {};
+    const suggestions = ['Сделай вступление короче', 'Добавь слайд с выводами', 'Поменяй дикторов местами'];
+    if (slides.length === 0) {
+        const operations: SlideOperation[] = buildStoryboard(request).map((slide, index) => ({ type: 'insertSlide', index, slide }));
+        return { reply: 'Сценарий был пуст, поэтому я собрал его заново из загруженных кадров.', suggestions, operations };
+    }
+    const lastIndex = slides.length - 1;
+    const note = userMessage ? ` Учтено пожелание: «${userMessage.slice(0, 80)}».` : '';
+    const operations: SlideOperation[] = [{ type: 'updateField', index: lastIndex, field: 'script', value: `${slides[lastIndex].script}${note}` }];
+    return { reply: 'Я дополнил текст последнего слайда с учетом вашей просьбы.', suggestions, operations };
+};
+
+const buildMusic = (request: LlmRequest): string[] => {
+    const seed = seedOf(request.context?.topic || '');
+    return [0, 3, 5].map(offset => pick(MOODS, seed, offset)).filter((mood, i, all) => all.indexOf(mood) === i);
+};
+
+const buildSsml = (script: string): string => {
+    const sentences = script.split(/(?<=[.!?])\s+/).filter(Boolean);
+    return `<speak>${sentences.map((sentence, i) => i === 0 ? `<emphasis level="moderate">${sentence}</emphasis>` : sentence).join('<break time="0.4s"/>')}</speak>`;
+};
+
+const buildResponseText = (request: LlmRequest): string => {
+    switch (request.operation) {
+        case 'plan': return buildPlan(request.context?.topic || 'Презентация');
+        case 'analysis':
+            // The analysis operation covers single frames, batches and the final story merge.
+            if (request.context?.descriptions) return buildMergedStory(request.context.descriptions);
+            if (request.context?.images) return JSON.stringify(buildBatchAnalysis(request));
+            return JSON.stringify(buildFrameAnalysis(request));
+        case 'storyboard': return JSON.stringify(buildStoryboard(request));
+        case 'chat': return JSON.stringify(buildChatEdit(request));
+        case 'music': return JSON.stringify(buildMusic(request));
+        case 'ssml': return buildSsml(request.context?.script || '');
+        default: throw new Error(`Офлайн-провайдер не поддерживает операцию "${request.operation}".`);
+    }
+};
+
+/**
+ * Creates the offline provider used for local development.
+ * @param failureMode Error to raise on every call instead of answering; 'none' for normal operation.
+ * @param keys The current key pool, used only to populate simulated key failures.
+ */
+export const createFakeProvider = (failureMode: FakeFailureMode, keys: ApiKey[]): LlmProvider => ({
+    id: 'fake',
+    selfCheck: async () => {},
+    generate: async (request): Promise<LlmResponse> => {
+        await cancellableDelay(RESPONSE_DELAY_MS, request.signal);
+        throwSimulatedFailure(failureMode, keys);
+
+        const text = buildResponseText(request);
+        if (request.onChunk) {
+            for (let end = STREAM_CHUNK_SIZE; end < text.length; end += STREAM_CHUNK_SIZE) {
+                request.onChunk(text.slice(0, end));
+                await cancellableDelay(STREAM_CHUNK_DELAY_MS, request.signal);
+            }
+            request.onChunk(text);
+        }
+        logger.logSuccess(`Fake provider answered "${request.operation}" (${text.length} chars)`, { model: FAKE_MODEL, endpoint: FAKE_ENDPOINT });
+        return { text, rawResponse: { fake: true, operation: request.operation } };
+    },
+});
+
+/**
+ * Draws a placeholder for a generated image on a canvas, with the long edge at 1280px.
+ * @returns Base64-encoded PNG data without the data URL prefix.
+ */
+export const generateFakeImage = async (query: string, aspectRatio: ImageAspectRatio, failureMode: FakeFailureMode, keys: ApiKey[], signal?: AbortSignal): Promise<string> => {
+    await cancellableDelay(RESPONSE_DELAY_MS, signal);
+    throwSimulatedFailure(failureMode, keys);
+
+    const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+    const canvas = document.createElement('canvas');
+    canvas.width = ratioWidth >= ratioHeight ? 1280 : Math.round(1280 * ratioWidth / ratioHeight);
+    canvas.height = ratioWidth >= ratioHeight ? Math.round(1280 * ratioHeight / ratioWidth) : 1280;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D недоступен в этом браузере.');
+
+    const hue = seedOf(query) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 15%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 48px sans-serif';
+    // Wrap the query into lines that fit the canvas.
+    const lines: string[] = [];
+    let line = '';
+    for (const word of query.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > canvas.width - 160 && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    lines.slice(0, 5).forEach((text, i, shown) => ctx.fillText(text, canvas.width / 2, canvas.height / 2 + (i - (shown.length - 1) / 2) * 60));
+    ctx.font = '24px sans-serif';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.fillText('offline placeholder', canvas.width / 2, canvas.height - 40);
+
+    logger.logSuccess(`Fake provider drew a placeholder image for "${query}"`, { model: FAKE_MODEL, endpoint: FAKE_ENDPOINT });
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Imitates an AI edit: the original photo with the instruction stamped over it.
+ * @returns The "edited" image as base64 PNG without the data URL prefix.
+ */
+export const editFakeImage = async (base64: string, mimeType: string, instruction: string, failureMode: FakeFailureMode, keys: ApiKey[], signal?: AbortSignal): Promise<{ base64: string; mimeType: string }> => {
+    await cancellableDelay(RESPONSE_DELAY_MS, signal);
+    throwSimulatedFailure(failureMode, keys);
+
+    const bitmap = await createImageBitmap(await (await fetch(`data:${mimeType};base64,${base64}`)).blob());
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D недоступен в этом браузере.');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const bandHeight = Math.max(40, Math.round(canvas.height * 0.12));
+    ctx.fillStyle = `hsla(${seedOf(instruction) % 360}, 60%, 30%, 0.75)`;
+    ctx.fillRect(0, canvas.height - bandHeight, canvas.width, bandHeight);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `${Math.round(bandHeight * 0.4)}px sans-serif`;
+    ctx.fillText(`offline edit: ${instruction}`, canvas.width / 2, canvas.height - bandHeight / 2, canvas.width - 40);
+
+    logger.logSuccess(`Fake provider "edited" an image: "${instruction}"`, { model: FAKE_MODEL, endpoint: FAKE_ENDPOINT });
+    return { base64: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
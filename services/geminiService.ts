@@ -1,10 +1,23 @@
 // FIX: Added 'ExifData' to the import list from '../types'.
-import { UploadedImage, ChatMessage, Slide, ApiKey, AppSettings, ExifData } from '../types';
+import { UploadedImage, ChatMessage, Slide, ApiKey, AppSettings, ExifData, UsageOperation, KeySchedulingStrategy, KeySelection, RateLimit, RateLimitQueueState, SlideOperationOutcome, ImageGenerationParams, ImagePreprocessSettings } from '../types';
 import logger from './logger';
+import { recordUsage, getUsageEntries } from './usageLedger';
+import { parseQuotaError, getNextPacificMidnight, getPacificDayStart, toQuotaDayKey, computeBackoffDelay } from '../utils/quotaParser';
+import { renderPrompt, getTemplateVersion } from './promptTemplates';
+import { getCachedAnalysis, putCachedAnalysis } from './analysisCache';
+import { sha256Hex } from '../utils/hash';
+import { trafficFetch, isReplaying, ReplayMissError } from './trafficRecorder';
+import { createFakeProvider, generateFakeImage, editFakeImage, FAKE_MODEL } from './fakeProvider';
+import { validateSlides, formatViolations, SlideViolation } from '../utils/slideValidator';
+import { applySlideOperations } from '../utils/slideOperations';
+import { parseCompleteObjectsFromPartialJson } from '../utils/planParser';
+import { preprocessImage, base64ByteLength, PreprocessedImage, getTargetSize, readImageSize } from '../utils/imagePreprocess';
+import { LlmPart, LlmProvider, LlmRequest, LlmResponse, StreamChunkHandler, forEachStreamLine, createOpenAiCompatibleProvider, createOllamaProvider, AllKeysFailedError, ConfigError, CancelledError, ContentBlockedError, ContentBlockReason, TruncatedResponseError, isAbortError, throwIfCancelled, cancellableDelay, completeTruncatedResponse, CONTINUATION_PROMPT } from './llmProvider';
 
 // --- Local type definitions for REST API responses ---
 interface GeminiPart {
   text?: string;
+  thought?: boolean; // Thought summaries are not part of the answer
   inlineData?: {
     mimeType: string;
     data: string;
@@ -16,8 +29,12 @@ interface GeminiContent {
 }
 interface GeminiApiResponse {
   candidates?: [{
-    content: GeminiContent
+    content: GeminiContent;
+    finishReason?: string;
   }];
+  promptFeedback?: {
+    blockReason?: string;
+  };
   usageMetadata?: {
     promptTokenCount: number;
     candidatesTokenCount: number;
@@ -32,20 +49,98 @@ interface GeminiApiResponse {
   error?: any;
   _usedKey?: string; // Custom property to track the key
 }
-interface AppGenerateContentResponse {
-    text: string;
-    rawResponse: GeminiApiResponse;
+// Gemini's blockReason and finishReason values that mean a content filter stopped the request.
+const BLOCK_REASONS: Record<string, ContentBlockReason> = {
+    SAFETY: 'safety',
+    IMAGE_SAFETY: 'safety',
+    SPII: 'safety',
+    RECITATION: 'recitation',
+    BLOCKLIST: 'blocklist',
+    PROHIBITED_CONTENT: 'prohibited_content',
+    OTHER: 'other',
+};
+
+/**
+ * Extracts the answer text and classifies why generation stopped.
+ * @throws {ContentBlockedError} If the prompt was blocked or a filter stopped the answer.
+ */
+const createTextResponse = (rawResponse: GeminiApiResponse): LlmResponse => {
+    const blockReason = rawResponse.promptFeedback?.blockReason;
+    if (blockReason) {
+        logger.logWarning(`Request blocked by the model's content filter: ${blockReason}`, { apiResponse: rawResponse });
+        throw new ContentBlockedError(`Запрос отклонен фильтром модели (${blockReason}).`, BLOCK_REASONS[blockReason] ?? 'other', 'prompt');
+    }
+    const candidate = rawResponse.candidates?.[0];
+    const finishReason = candidate?.finishReason;
+    // 'OTHER' is only a block reason for prompts; as a finishReason it says nothing about content.
+    if (finishReason && finishReason !== 'OTHER' && finishReason in BLOCK_REASONS) {
+        logger.logWarning(`Response stopped by the model's content filter: ${finishReason}`, { apiResponse: rawResponse });
+        throw new ContentBlockedError(`Ответ остановлен фильтром модели (${finishReason}).`, BLOCK_REASONS[finishReason], 'response');
+    }
+    return {
+        text: candidate?.content?.parts?.filter(p => p.text && !p.thought).map(p => p.text).join('') ?? '',
+        rawResponse,
+        truncated: finishReason === 'MAX_TOKENS',
+    };
+};
+
+interface ApiCallOptions {
+    operation?: UsageOperation;
+    stream?: boolean;
+    onChunk?: StreamChunkHandler;
+    signal?: AbortSignal;
+    action?: string; // Overrides the method called on the model, e.g. 'predictLongRunning'
 }
-const createTextResponse = (rawResponse: GeminiApiResponse): AppGenerateContentResponse => ({
-    text: rawResponse.candidates?.[0]?.content?.parts?.find(p => p.text)?.text ?? '',
-    rawResponse,
-});
+
+/**
+ * Reads a `:streamGenerateContent?alt=sse` response body and merges all chunks into a single
+ * response object shaped like a regular `:generateContent` result.
+ * @param response The successful fetch response with an SSE body.
+ * @param onChunk Optional callback receiving the accumulated text after each chunk.
+ * @returns The merged response.
+ */
+const readSseStream = async (response: Response, onChunk?: StreamChunkHandler): Promise<GeminiApiResponse> => {
+    let accumulatedText = '';
+    let finishReason: string | undefined;
+    let promptFeedback: GeminiApiResponse['promptFeedback'];
+    let usageMetadata: GeminiApiResponse['usageMetadata'];
+
+    await forEachStreamLine(response, line => {
+        if (!line.startsWith('data:')) return;
+        const chunk: GeminiApiResponse = JSON.parse(line.slice(5).trim());
+        if (chunk.error) {
+            throw new Error(`Stream interrupted: ${chunk.error.message || 'unknown error'}`);
+        }
+        const candidate = chunk.candidates?.[0];
+        const textDelta = candidate?.content?.parts?.filter(p => !p.thought).map(p => p.text ?? '').join('') ?? '';
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+        if (chunk.promptFeedback) promptFeedback = chunk.promptFeedback;
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        if (textDelta) {
+            accumulatedText += textDelta;
+            onChunk?.(accumulatedText);
+        }
+    });
+
+    return {
+        candidates: [{ content: { role: 'model', parts: [{ text: accumulatedText }] }, finishReason }],
+        promptFeedback,
+        usageMetadata,
+    };
+};
 
 // --- Module State ---
 let keyPool: ApiKey[] = []; // The source of truth for keys, updated from the UI.
-const tokenUsageStats: Record<string, { prompt: number; candidates: number; total: number }> = {};
-const KEY_COOLDOWN_PERIOD = 24 * 60 * 60 * 1000; // 24 hours
+let keyStrategy: KeySchedulingStrategy = 'pinned_first';
+let roundRobinCursor = 0;
+const keySelectionHistory: KeySelection[] = [];
+const MAX_SELECTION_HISTORY = 20;
 const SHORT_COOLDOWN_PERIOD = 5 * 60 * 1000; // 5 minutes for transient errors
+const DEFAULT_RATE_LIMIT_DELAY = 60 * 1000; // Per-minute quota window when RetryInfo is missing
+const MAX_SAME_KEY_RETRY_DELAY = 30 * 1000; // Longer waits rotate to the next key instead
+const MAX_SAME_KEY_RETRIES = 3;
+const RATE_LIMIT_WINDOW = 60 * 1000;
+const ESTIMATED_TOKENS_PER_IMAGE = 258; // Gemini bills each inline image as a fixed token count
 
 /**
  * A centralized, strict check to determine if a key is usable right now.
@@ -62,10 +157,103 @@ const isKeyAvailable = (key: ApiKey, now: number = Date.now()): boolean => {
     if (key.resetTime && key.resetTime > now) {
         return false;
     }
+    if (key.dailyTokenBudget && getTokensUsedToday(key, now) >= key.dailyTokenBudget) {
+        return false;
+    }
     // If status is 'active' and not on cooldown, it's available.
     return true;
 };
 
+const getTokensUsedToday = (key: ApiKey, now: number = Date.now()): number =>
+    key.usageDay === toQuotaDayKey(now) ? key.tokensUsedToday ?? 0 : 0;
+
+/**
+ * Orders the pool according to the active scheduling strategy. The first available key in
+ * the returned order is tried first; the rest serve as fallbacks.
+ * @param keys The key pool.
+ * @param strategy The scheduling strategy from the settings.
+ * @returns A new array in the order the keys should be tried.
+ */
+const orderKeysByStrategy = (keys: ApiKey[], strategy: KeySchedulingStrategy): ApiKey[] => {
+    switch (strategy) {
+        case 'round_robin': {
+            if (keys.length === 0) return [];
+            const start = roundRobinCursor % keys.length;
+            return [...keys.slice(start), ...keys.slice(0, start)];
+        }
+        case 'least_recently_used':
+            return [...keys].sort((a, b) => (a.lastUsedAt ?? 0) - (b.lastUsedAt ?? 0));
+        case 'least_tokens_used':
+            return [...keys].sort((a, b) => getTokensUsedToday(a) - getTokensUsedToday(b));
+        case 'weighted':
+            // Weighted random order (Efraimidis–Spirakis): higher weight => more likely to come first.
+            return keys
+                .map(key => ({ key, rank: Math.pow(Math.random(), 1 / Math.max(key.weight ?? 1, 0.01)) }))
+                .sort((a, b) => b.rank - a.rank)
+                .map(({ key }) => key);
+        case 'pinned_first':
+        default: {
+            const pinnedKey = keys.find(k => k.isPinned);
+            const otherKeys = keys.filter(k => !k.isPinned);
+            return pinnedKey ? [pinnedKey, ...otherKeys] : otherKeys;
+        }
+    }
+};
+
+const recordKeySelection = (key: ApiKey, model: string) => {
+    if (keyStrategy === 'round_robin') {
+        roundRobinCursor = keyPool.findIndex(k => k.value === key.value) + 1;
+    }
+    keySelectionHistory.unshift({ timestamp: Date.now(), maskedKey: `...${key.value.slice(-4)}`, strategy: keyStrategy, model });
+    keySelectionHistory.length = Math.min(keySelectionHistory.length, MAX_SELECTION_HISTORY);
+};
+
+const addKeyTokenUsage = (key: ApiKey, tokens: number) => {
+    const today = toQuotaDayKey(Date.now());
+    key.tokensUsedToday = (key.usageDay === today ? key.tokensUsedToday ?? 0 : 0) + tokens;
+    key.usageDay = today;
+};
+
+export const setKeyStrategy = (strategy: KeySchedulingStrategy) => {
+    if (strategy !== keyStrategy) {
+        logger.logInfo(`Key scheduling strategy set to '${strategy}'.`);
+    }
+    keyStrategy = strategy;
+};
+
+/**
+ * Returns the most recent key selections, newest first.
+ */
+export const getKeySelectionHistory = (): KeySelection[] => [...keySelectionHistory];
+
+/**
+ * Seeds each key's token counter for today from the persisted usage ledger,
+ * so budgets and the 'least_tokens_used' strategy survive reloads.
+ */
+export const loadKeyUsageFromLedger = async (): Promise<void> => {
+    try {
+        const usage = await readTodayUsageByKey();
+        const today = toQuotaDayKey(Date.now());
+        keyPool.forEach(key => {
+            key.tokensUsedToday = usage.get(`...${key.value.slice(-4)}`) ?? 0;
+            key.usageDay = today;
+        });
+    } catch (e) {
+        console.error("Failed to load key usage from ledger:", e);
+    }
+};
+
+/**
+ * Sums the ledger tokens of the current quota day (since Pacific midnight) per masked key.
+ */
+const readTodayUsageByKey = async (): Promise<Map<string, number>> => {
+    const usage = new Map<string, number>();
+    (await getUsageEntries(getPacificDayStart())).forEach(entry => {
+        usage.set(entry.maskedKey, (usage.get(entry.maskedKey) ?? 0) + entry.totalTokens);
+    });
+    return usage;
+};
+
 
 export const initializeApiKeys = (keysFromSettings: ApiKey[]) => {
     const liveKeyMap = new Map(keyPool.map(k => [k.value, k]));
@@ -81,7 +269,10 @@ export const initializeApiKeys = (keysFromSettings: ApiKey[]) => {
             return {
                 ...liveKeyData, // Start with the live data as the base
                 isPinned: keyFromSettings.isPinned,
+                label: keyFromSettings.label,
                 projectId: keyFromSettings.projectId,
+                weight: keyFromSettings.weight,
+                dailyTokenBudget: keyFromSettings.dailyTokenBudget,
             };
         }
         // For new keys not present in the live pool, add them with default 'unknown' status.
@@ -93,24 +284,121 @@ export const initializeApiKeys = (keysFromSettings: ApiKey[]) => {
     
     const availableCount = keyPool.filter(k => isKeyAvailable(k)).length;
     logger.logInfo(`Key pool updated. Total keys: ${keyPool.length}. Available: ${availableCount}`);
+    scheduleKeyRecovery();
 };
 
-// --- Custom Errors ---
-export class AllKeysFailedError extends Error {
-  failedKeys: ApiKey[];
-  constructor(message: string, failedKeys: ApiKey[] = []) {
-    super(message);
-    this.name = 'AllKeysFailedError';
-    this.failedKeys = failedKeys;
-  }
-}
-export class ConfigError extends Error {
-  constructor(message: string, public model: string, public endpoint: string) {
-    super(message);
-    this.name = 'ConfigError';
-  }
+// --- Client-side Rate Limiter ---
+// Sliding one-minute windows per key+model. Calls that would exceed the configured
+// RPM/TPM wait in a queue instead of tripping the server-side quota.
+interface RateWindowEntry {
+    timestamp: number;
+    tokens: number;
 }
 
+let rateLimits: Record<string, RateLimit> = {};
+const rateWindows = new Map<string, RateWindowEntry[]>();
+// Replaced on every change, so subscribers can compare snapshots by reference.
+let rateLimitQueue: RateLimitQueueState = { depth: 0, waitMs: 0 };
+const rateLimitQueueListeners = new Set<() => void>();
+
+const setRateLimitQueue = (state: RateLimitQueueState) => {
+    rateLimitQueue = state;
+    rateLimitQueueListeners.forEach(listener => listener());
+};
+
+export const setRateLimits = (limits: Record<string, RateLimit>) => {
+    rateLimits = limits || {};
+};
+
+export const getRateLimitQueueState = (): RateLimitQueueState => rateLimitQueue;
+
+/**
+ * Registers a callback for any change of the rate limiter queue. Returns the unsubscribe function.
+ */
+export const subscribeRateLimitQueue = (listener: () => void): (() => void) => {
+    rateLimitQueueListeners.add(listener);
+    return () => { rateLimitQueueListeners.delete(listener); };
+};
+
+const getRateWindow = (keyValue: string, model: string, now: number): RateWindowEntry[] => {
+    const bucketId = `${keyValue}|${model}`;
+    const window = (rateWindows.get(bucketId) || []).filter(e => now - e.timestamp < RATE_LIMIT_WINDOW);
+    rateWindows.set(bucketId, window);
+    return window;
+};
+
+/**
+ * Returns how long a request must wait before the key+model bucket has capacity for it.
+ * @returns 0 if the request can be sent immediately.
+ */
+const getRateLimitWait = (keyValue: string, model: string, estimatedTokens: number, now: number = Date.now()): number => {
+    const limit = rateLimits[model];
+    if (!limit) return 0;
+    const window = getRateWindow(keyValue, model, now);
+    let waitMs = 0;
+
+    if (limit.requestsPerMinute > 0 && window.length >= limit.requestsPerMinute) {
+        const oldestBlocking = window[window.length - limit.requestsPerMinute];
+        waitMs = Math.max(waitMs, oldestBlocking.timestamp + RATE_LIMIT_WINDOW - now);
+    }
+    if (limit.tokensPerMinute > 0 && window.length > 0) {
+        // Wait until enough old entries leave the window for this request to fit.
+        let usedTokens = window.reduce((sum, e) => sum + e.tokens, 0);
+        for (const entry of window) {
+            if (usedTokens + estimatedTokens <= limit.tokensPerMinute) break;
+            usedTokens -= entry.tokens;
+            waitMs = Math.max(waitMs, entry.timestamp + RATE_LIMIT_WINDOW - now);
+        }
+    }
+    return waitMs;
+};
+
+/**
+ * Waits until the key+model bucket has capacity, then reserves a slot.
+ * @returns The reserved entry; update its `tokens` once the real usage is known.
+ */
+const acquireRateLimitSlot = async (keyValue: string, model: string, estimatedTokens: number, signal?: AbortSignal): Promise<RateWindowEntry> => {
+    let waitMs = getRateLimitWait(keyValue, model, estimatedTokens);
+    if (waitMs > 0) {
+        const maskedKey = `...${keyValue.slice(-4)}`;
+        setRateLimitQueue({ depth: rateLimitQueue.depth + 1, waitMs });
+        logger.logInfo(`Request queued by rate limiter for ~${Math.ceil(waitMs / 1000)}s (key ${maskedKey})`, {
+            maskedKey, model, queue: rateLimitQueue
+        });
+        try {
+            while (waitMs > 0) {
+                await cancellableDelay(waitMs, signal);
+                waitMs = getRateLimitWait(keyValue, model, estimatedTokens);
+            }
+        } finally {
+            const depth = rateLimitQueue.depth - 1;
+            setRateLimitQueue({ depth, waitMs: depth > 0 ? rateLimitQueue.waitMs : 0 });
+            logger.logInfo(`Request left the rate limiter queue (key ${maskedKey})`, {
+                maskedKey, model, queue: rateLimitQueue
+            });
+        }
+    }
+    const entry: RateWindowEntry = { timestamp: Date.now(), tokens: estimatedTokens };
+    getRateWindow(keyValue, model, entry.timestamp).push(entry);
+    return entry;
+};
+
+const estimateTextTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Rough input token estimate for a REST payload: ~4 characters per token for text plus a fixed cost per image.
+ */
+const estimatePayloadTokens = (payload: any): number => {
+    const parts: any[] = (payload?.contents || []).flatMap((c: any) => c.parts || []);
+    const systemText = (payload?.systemInstruction?.parts || []).map((p: any) => p.text || '').join('');
+    const text = systemText + parts.map(p => p.text || '').join('') + (payload?.prompt?.text || '');
+    const imageCount = parts.filter(p => p.inlineData).length;
+    return estimateTextTokens(text) + imageCount * ESTIMATED_TOKENS_PER_IMAGE;
+};
+
+// --- Custom Errors ---
+export { AllKeysFailedError, ConfigError, CancelledError, ContentBlockedError, TruncatedResponseError };
+
 /**
  * Resets the status of all 'exhausted' keys to 'active'.
  * This is a recovery mechanism to try again if quotas have reset.
@@ -129,6 +417,7 @@ export const resetExhaustedKeys = (): void => {
     if (keysReset > 0) {
         const availableCount = keyPool.filter(k => isKeyAvailable(k)).length;
         logger.logInfo(`[Recovery] Reset ${keysReset} exhausted key statuses. Available keys: ${availableCount}`);
+        scheduleKeyRecovery();
     }
 };
 
@@ -146,10 +435,45 @@ export const forceResetAllKeys = (): ApiKey[] => {
     });
     
     logger.logSuccess(`Force reset complete. All ${keyPool.length} keys set to 'active'.`);
+    scheduleKeyRecovery();
     
     return getKeyPoolState();
 };
 
+const HEALTH_CHECK_MODEL = 'gemini-2.5-flash';
+const HEALTH_CHECK_ENDPOINT = 'generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Stores the result of a key probe, including when an exhausted or rate-limited key should be probed again.
+ */
+const applyCheckedStatus = (key: ApiKey, status: ApiKey['status']) => {
+    key.status = status;
+    key.lastChecked = Date.now();
+    if (status === 'exhausted') {
+        key.resetTime = getNextPacificMidnight();
+    } else if (status === 'rate_limited') {
+        key.resetTime = Date.now() + DEFAULT_RATE_LIMIT_DELAY;
+    } else if (status === 'active') {
+        key.resetTime = undefined;
+        key.lastError = undefined;
+    } else {
+        key.resetTime = undefined;
+    }
+};
+
+/**
+ * Records the result of a key check made outside the pool's own health checks (e.g. after an import),
+ * so the scheduler sees the same status as the settings UI.
+ * @param lastError The check's error message, if it failed.
+ */
+export const applyKeyCheckResult = (keyValue: string, status: ApiKey['status'], lastError?: string): void => {
+    const keyToUpdate = keyPool.find(k => k.value === keyValue);
+    if (!keyToUpdate) return;
+    applyCheckedStatus(keyToUpdate, status);
+    if (lastError) keyToUpdate.lastError = lastError;
+    scheduleKeyRecovery();
+};
+
 /**
  * Performs a health check on all keys in the pool to get their current status.
  * This runs on app startup to ensure the state is fresh.
@@ -164,23 +488,9 @@ export const healthCheckAllKeys = async (): Promise<void> => {
             // FIX: Removed faulty logic that used `projectId` as the model/endpoint.
             // Using stable default values for the initial health check ensures that
             // requests are formatted correctly, preventing "Model not found" errors.
-            const model = 'gemini-2.5-flash';
-            const endpoint = 'generativelanguage.googleapis.com/v1beta';
-            
-            const status = await checkApiKey(key.value, model, endpoint);
+            const status = await checkApiKey(key.value, HEALTH_CHECK_MODEL, HEALTH_CHECK_ENDPOINT);
             const keyToUpdate = keyPool.find(k => k.value === key.value);
-            if (keyToUpdate) {
-                keyToUpdate.status = status;
-                keyToUpdate.lastChecked = Date.now();
-                if (status === 'exhausted') {
-                    keyToUpdate.resetTime = Date.now() + KEY_COOLDOWN_PERIOD;
-                } else if (status === 'active') {
-                    keyToUpdate.resetTime = undefined;
-                    keyToUpdate.lastError = undefined;
-                } else {
-                     keyToUpdate.resetTime = undefined;
-                }
-            }
+            if (keyToUpdate) applyCheckedStatus(keyToUpdate, status);
         } catch (error) {
             const keyToUpdate = keyPool.find(k => k.value === key.value);
             if (keyToUpdate) {
@@ -193,24 +503,150 @@ export const healthCheckAllKeys = async (): Promise<void> => {
     // FIX: Use the consistent `isKeyAvailable` helper for the final log message.
     const availableCount = keyPool.filter(k => isKeyAvailable(k)).length;
     logger.logSuccess(`Health check for all keys completed. Available keys: ${availableCount}`);
+    scheduleKeyRecovery();
+};
+
+// --- Key Recovery Scheduler ---
+// A single timer waits for the earliest resetTime among exhausted and rate-limited keys, re-probes the keys
+// that are due and re-arms itself. Status changes go through the logger, which re-renders the key views.
+const MIN_RECOVERY_DELAY = 1000;
+let recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+let isRecovering = false;
+const recoveryListeners = new Set<(keys: ApiKey[]) => void>();
+
+const isAwaitingRecovery = (key: ApiKey): boolean =>
+    (key.status === 'exhausted' || key.status === 'rate_limited') && !!key.resetTime;
+
+/**
+ * Registers a callback for keys that became active again. It receives the whole pool state.
+ * Returns the unsubscribe function.
+ */
+export const onKeyRecovered = (listener: (keys: ApiKey[]) => void): (() => void) => {
+    recoveryListeners.add(listener);
+    return () => { recoveryListeners.delete(listener); };
+};
+
+const recoverDueKeys = async () => {
+    recoveryTimer = null;
+    isRecovering = true;
+    const now = Date.now();
+    const dueKeys = keyPool.filter(k => isAwaitingRecovery(k) && k.resetTime! <= now);
+    let recoveredCount = 0;
+
+    await Promise.all(dueKeys.map(async ({ value, status: previousStatus }) => {
+        const maskedKey = `...${value.slice(-4)}`;
+        let status: ApiKey['status'];
+        let lastError: string | undefined;
+        try {
+            status = await checkApiKey(value, HEALTH_CHECK_MODEL, HEALTH_CHECK_ENDPOINT);
+        } catch (error) {
+            status = 'unknown';
+            lastError = error instanceof Error ? error.message : String(error);
+        }
+        // The pool may have been rebuilt from settings while the probe was running.
+        const keyToUpdate = keyPool.find(k => k.value === value);
+        if (!keyToUpdate || !isAwaitingRecovery(keyToUpdate)) return;
+        applyCheckedStatus(keyToUpdate, status);
+        if (lastError) keyToUpdate.lastError = lastError;
+
+        if (status === 'active') {
+            recoveredCount++;
+            logger.logSuccess(`[Recovery] Key ${maskedKey} is active again (was ${previousStatus}).`, { maskedKey });
+        } else if (isAwaitingRecovery(keyToUpdate)) {
+            logger.logInfo(`[Recovery] Key ${maskedKey} is still ${status}. Next check at ${new Date(keyToUpdate.resetTime!).toLocaleTimeString()}.`, { maskedKey });
+        } else {
+            logger.logWarning(`[Recovery] Key ${maskedKey} is now ${status}; it will not be re-checked automatically.`, { maskedKey });
+        }
+    }));
+
+    isRecovering = false;
+    scheduleKeyRecovery();
+    if (recoveredCount > 0) {
+        const keys = getKeyPoolState();
+        recoveryListeners.forEach(listener => listener(keys));
+    }
+};
+
+/**
+ * (Re)arms the recovery timer for the earliest pending resetTime. Called whenever key statuses change.
+ */
+const scheduleKeyRecovery = () => {
+    if (isRecovering) return; // The running pass re-arms the timer when it finishes.
+    if (recoveryTimer) clearTimeout(recoveryTimer);
+    recoveryTimer = null;
+    const resetTimes = keyPool.filter(isAwaitingRecovery).map(k => k.resetTime!);
+    if (resetTimes.length === 0) return;
+    const delay = Math.max(MIN_RECOVERY_DELAY, Math.min(...resetTimes) - Date.now());
+    recoveryTimer = setTimeout(recoverDueKeys, delay);
 };
 
 
 // --- Core API Call Logic with Key Rotation ---
+const buildGoogleApiRequest = (model: string, endpoint: string, payload: object, method: 'POST' | 'GET', options: ApiCallOptions, key: string) => {
+    const isImageRequest = payload.hasOwnProperty('prompt');
+    const action = options.action ?? (isImageRequest ? 'generateImages' : (options.stream ? 'streamGenerateContent' : 'generateContent'));
+    const query = options.stream && !isImageRequest ? `alt=sse&key=${key}` : `key=${key}`;
+    // GET reads a resource by its full name (e.g. a long-running operation) instead of calling a model method.
+    const url = method === 'GET'
+        ? `https://${endpoint}/${model}?${query}`
+        : `https://${endpoint}/models/${model}:${action}?${query}`;
+    const requestInit: RequestInit = { method, headers: { 'Content-Type': 'application/json' }, signal: options.signal };
+    if (method === 'POST') requestInit.body = JSON.stringify(payload);
+    return { operation: `gemini:${options.operation ?? action}`, url, requestInit };
+};
+
+const REPLAY_KEY = 'replay'; // Fixtures are stored without the `key` parameter, so any value matches.
+// A recording may hold failed attempts on other keys before the answer that succeeded.
+const MAX_REPLAY_ATTEMPTS = 10;
+
+/**
+ * Serves a request from the loaded traffic fixture. Key selection, rate limiting and key statuses
+ * are skipped: a replay must work offline and without any configured keys.
+ */
+const replayGoogleApiCall = async (model: string, endpoint: string, payload: object, method: 'POST' | 'GET', options: ApiCallOptions): Promise<any> => {
+    const { operation, url, requestInit } = buildGoogleApiRequest(model, endpoint, payload, method, options, REPLAY_KEY);
+    for (let attempt = 1; ; attempt++) {
+        let response: Response;
+        try {
+            response = await trafficFetch(operation, url, requestInit);
+        } catch (error) {
+            if (isAbortError(error, options.signal)) throw new CancelledError();
+            throw error;
+        }
+        const data = options.stream && response.ok
+            ? await readSseStream(response, options.onChunk)
+            : await response.json();
+        if (!data.error && response.ok) {
+            logger.logSuccess(`Replayed API call for "${operation}".`, { model, endpoint, apiResponse: data });
+            data._usedKey = REPLAY_KEY;
+            return data;
+        }
+
+        const { message = 'Unknown error', status } = data.error || {};
+        logger.logError(`Replayed API error for "${operation}": ${message}`, { model, endpoint, httpStatus: response.status, apiError: { status, message }, apiResponse: data });
+        if (response.status === 404 || status === 'NOT_FOUND') {
+            throw new ConfigError(`Модель или конечная точка не найдены. Проверьте model и endpoint.`, model, endpoint);
+        }
+        if (attempt >= MAX_REPLAY_ATTEMPTS) throw new Error(`API Error (replay): ${message}`);
+    }
+};
+
 const makeGoogleApiCall = async (
     model: string,
     endpoint: string,
     payload: object,
-    method: 'POST' | 'GET' = 'POST'
+    method: 'POST' | 'GET' = 'POST',
+    options: ApiCallOptions = {}
 ): Promise<any> => {
-    
-    const getOrderedKeys = (): ApiKey[] => {
-        const pinnedKey = keyPool.find(k => k.isPinned);
-        const otherKeys = keyPool.filter(k => !k.isPinned);
-        return pinnedKey ? [pinnedKey, ...otherKeys] : otherKeys;
-    };
-    
-    const allKeysInOrder = getOrderedKeys();
+    throwIfCancelled(options.signal);
+    if (isReplaying()) return replayGoogleApiCall(model, endpoint, payload, method, options);
+    const estimatedTokens = estimatePayloadTokens(payload);
+    // Keys with rate-limiter capacity go first; throttled keys keep their strategy order behind them.
+    const strategyOrder = orderKeysByStrategy(keyPool, keyStrategy);
+    const allKeysInOrder = [
+        ...strategyOrder.filter(k => getRateLimitWait(k.value, model, estimatedTokens) === 0),
+        ...strategyOrder.filter(k => getRateLimitWait(k.value, model, estimatedTokens) > 0),
+    ];
 
     // FIX: The key availability check is now strict and correct, using the new `isKeyAvailable` helper.
     // It will no longer attempt to use keys that are exhausted, rate-limited, invalid, or unknown.
@@ -234,87 +670,124 @@ const makeGoogleApiCall = async (
         const currentKey = keyState.value;
         const maskedKey = `...${currentKey.slice(-4)}`;
         const keyToUpdate = keyPool.find(k => k.value === currentKey)!;
-        const startTime = Date.now();
+        recordKeySelection(keyToUpdate, model);
 
-        try {
-            logger.logInfo(`Attempting API call with key ${maskedKey}`, { 
-                maskedKey, model, endpoint, requestPayload: payload 
-            });
+        // Per-minute limits with a short RetryInfo delay are retried on the same key with backoff.
+        for (let attempt = 0; ; attempt++) {
+            const rateSlot = await acquireRateLimitSlot(currentKey, model, estimatedTokens, options.signal);
+            const startTime = Date.now();
+            try {
+                logger.logInfo(`Attempting API call with key ${maskedKey} (strategy: ${keyStrategy})`, { 
+                    maskedKey, model, endpoint, strategy: keyStrategy, requestPayload: payload 
+                });
             
-            const modelPath = `models/${model}`;
-            const url = `https://${endpoint}/${modelPath}:${payload.hasOwnProperty('prompt') ? 'generateImages' : 'generateContent'}?key=${currentKey}`;
-            const options: RequestInit = { method, headers: { 'Content-Type': 'application/json' } };
-            if (method === 'POST') options.body = JSON.stringify(payload);
-
-            const response = await fetch(url, options);
-            const data = await response.json();
-            const durationMs = Date.now() - startTime;
+                const { operation, url, requestInit } = buildGoogleApiRequest(model, endpoint, payload, method, options, currentKey);
+                const response = await trafficFetch(operation, url, requestInit);
+                // Error responses are plain JSON even for streaming requests.
+                const data = options.stream && response.ok
+                    ? await readSseStream(response, options.onChunk)
+                    : await response.json();
+                const durationMs = Date.now() - startTime;
             
-            if (data.error || !response.ok) {
-                const { message = 'Unknown error', status } = data.error || {};
-                const lowerMessage = (message as string).toLowerCase();
-
-                const isQuota = response.status === 429 || status === 'RESOURCE_EXHAUSTED' || lowerMessage.includes('quota');
-                const isInvalid = lowerMessage.includes('api key not valid') || lowerMessage.includes('invalid_api_key') || response.status === 403 || status === 'PERMISSION_DENIED';
-                const isConfigError = response.status === 404 || status === 'NOT_FOUND';
-                const isServerError = response.status >= 500 && response.status < 600;
-
-                const errorMessage = `API Error with ${maskedKey}: ${message}`;
-                const logDetails = { maskedKey, model, endpoint, durationMs, httpStatus: response.status, apiError: { status, message }, apiResponse: data };
-                logger.logError(errorMessage, logDetails);
-
-                keyToUpdate.lastError = message;
-
-                if (isConfigError) {
-                    keyToUpdate.status = 'config_error';
-                    keyToUpdate.resetTime = undefined;
-                    throw new ConfigError(`Модель или конечная точка не найдены. Проверьте model и endpoint.`, model, endpoint);
-                } else if (isInvalid) {
-                    keyToUpdate.status = 'invalid';
-                    keyToUpdate.resetTime = undefined;
-                } else if (isQuota) {
-                    keyToUpdate.status = 'exhausted';
-                    keyToUpdate.resetTime = Date.now() + KEY_COOLDOWN_PERIOD;
-                } else if (isServerError) {
-                    keyToUpdate.status = 'rate_limited';
-                    keyToUpdate.resetTime = Date.now() + SHORT_COOLDOWN_PERIOD;
-                }
-                else {
-                    keyToUpdate.status = 'unknown';
-                    keyToUpdate.resetTime = undefined;
+                if (data.error || !response.ok) {
+                    const { message = 'Unknown error', status } = data.error || {};
+                    const lowerMessage = (message as string).toLowerCase();
+
+                    const isQuota = response.status === 429 || status === 'RESOURCE_EXHAUSTED' || lowerMessage.includes('quota');
+                    const isInvalid = lowerMessage.includes('api key not valid') || lowerMessage.includes('invalid_api_key') || response.status === 403 || status === 'PERMISSION_DENIED';
+                    const isConfigError = response.status === 404 || status === 'NOT_FOUND';
+                    const isServerError = response.status >= 500 && response.status < 600;
+
+                    const errorMessage = `API Error with ${maskedKey}: ${message}`;
+                    const logDetails = { maskedKey, model, endpoint, durationMs, httpStatus: response.status, apiError: { status, message }, apiResponse: data };
+                    logger.logError(errorMessage, logDetails);
+
+                    keyToUpdate.lastError = message;
+
+                    if (isConfigError) {
+                        // A missing model says nothing about the key: it stays usable for the other model routes.
+                        throw new ConfigError(`Модель или конечная точка не найдены. Проверьте model и endpoint.`, model, endpoint);
+                    } else if (isInvalid) {
+                        keyToUpdate.status = 'invalid';
+                        keyToUpdate.resetTime = undefined;
+                    } else if (isQuota) {
+                        const quotaInfo = parseQuotaError(data.error);
+                        if (quotaInfo.kind === 'per_day') {
+                            // Daily quotas reset at midnight Pacific time, not 24h after the failure.
+                            keyToUpdate.status = 'exhausted';
+                            keyToUpdate.resetTime = getNextPacificMidnight();
+                        } else {
+                            const retryDelayMs = quotaInfo.retryDelayMs ?? DEFAULT_RATE_LIMIT_DELAY;
+                            keyToUpdate.status = 'rate_limited';
+                            keyToUpdate.resetTime = Date.now() + retryDelayMs;
+                            if (retryDelayMs <= MAX_SAME_KEY_RETRY_DELAY && attempt < MAX_SAME_KEY_RETRIES) {
+                                const waitMs = computeBackoffDelay(attempt, retryDelayMs);
+                                logger.logWarning(`Key ${maskedKey} hit a per-minute limit${quotaInfo.quotaId ? ` (${quotaInfo.quotaId})` : ''}. Retrying in ${Math.round(waitMs / 1000)}s (attempt ${attempt + 1}/${MAX_SAME_KEY_RETRIES})`, { maskedKey, model, endpoint });
+                                await cancellableDelay(waitMs, options.signal);
+                                keyToUpdate.status = 'active';
+                                keyToUpdate.resetTime = undefined;
+                                continue; // Retry the same key
+                            }
+                        }
+                    } else if (isServerError) {
+                        keyToUpdate.status = 'rate_limited';
+                        keyToUpdate.resetTime = Date.now() + SHORT_COOLDOWN_PERIOD;
+                    }
+                    else {
+                        keyToUpdate.status = 'unknown';
+                        keyToUpdate.resetTime = undefined;
+                    }
+                    scheduleKeyRecovery();
+                    break; // Try the next key
                 }
-                continue; // Try the next key
-            }
             
-            logger.logSuccess(`API call with ${maskedKey} successful (${durationMs}ms)`, {
-                maskedKey, model, endpoint, durationMs, apiResponse: data
-            });
+                logger.logSuccess(`API call with ${maskedKey} successful (${durationMs}ms)`, {
+                    maskedKey, model, endpoint, durationMs, apiResponse: data
+                });
             
-            keyToUpdate.status = 'active';
-            keyToUpdate.lastError = undefined;
-            keyToUpdate.resetTime = undefined;
+                keyToUpdate.status = 'active';
+                keyToUpdate.lastError = undefined;
+                keyToUpdate.resetTime = undefined;
+                keyToUpdate.lastUsedAt = Date.now();
+                if (data.usageMetadata) {
+                    addKeyTokenUsage(keyToUpdate, data.usageMetadata.totalTokenCount ?? 0);
+                    rateSlot.tokens = data.usageMetadata.totalTokenCount ?? rateSlot.tokens;
+                }
             
-            if (data.usageMetadata) {
-                const { promptTokenCount = 0, candidatesTokenCount = 0, totalTokenCount = 0 } = data.usageMetadata;
-                if (!tokenUsageStats[maskedKey]) tokenUsageStats[maskedKey] = { prompt: 0, candidates: 0, total: 0 };
-                tokenUsageStats[maskedKey].prompt += promptTokenCount;
-                tokenUsageStats[maskedKey].candidates += candidatesTokenCount;
-                tokenUsageStats[maskedKey].total += totalTokenCount;
-            }
+                // Replayed responses cost nothing and must not skew the ledger.
+                if (data.usageMetadata && options.operation && !isReplaying()) {
+                    const { promptTokenCount = 0, candidatesTokenCount = 0, totalTokenCount = 0 } = data.usageMetadata;
+                    recordUsage({
+                        timestamp: Date.now(),
+                        maskedKey,
+                        projectId: keyToUpdate.projectId,
+                        model,
+                        operation: options.operation,
+                        promptTokens: promptTokenCount,
+                        candidatesTokens: candidatesTokenCount,
+                        totalTokens: totalTokenCount,
+                    });
+                }
             
-            data._usedKey = maskedKey;
-            return data;
+                data._usedKey = maskedKey;
+                return data;
 
-        } catch (error: any) {
-            if (error instanceof ConfigError) throw error;
-            const durationMs = Date.now() - startTime;
-            const errorMessage = error.message || 'Network request failed';
-            logger.logError(`Network error with ${maskedKey}: ${errorMessage}`, {
-                maskedKey, model, endpoint, durationMs, apiError: { message: errorMessage, status: error.name || 'NETWORK_ERROR' }
-            });
-            keyToUpdate.status = 'unknown';
-            keyToUpdate.lastError = errorMessage;
-            continue;
+            } catch (error: any) {
+                if (error instanceof ConfigError || error instanceof CancelledError || error instanceof ReplayMissError) throw error;
+                if (isAbortError(error, options.signal)) {
+                    // The key did nothing wrong; leave its status untouched.
+                    logger.logWarning(`Request with ${maskedKey} cancelled by user.`, { maskedKey, model, endpoint });
+                    throw new CancelledError();
+                }
+                const durationMs = Date.now() - startTime;
+                const errorMessage = error.message || 'Network request failed';
+                logger.logError(`Network error with ${maskedKey}: ${errorMessage}`, {
+                    maskedKey, model, endpoint, durationMs, apiError: { message: errorMessage, status: error.name || 'NETWORK_ERROR' }
+                });
+                keyToUpdate.status = 'unknown';
+                keyToUpdate.lastError = errorMessage;
+                break;
+            }
         }
     }
 
@@ -324,7 +797,9 @@ const makeGoogleApiCall = async (
     throw new AllKeysFailedError(finalMessage, finalKeyState);
 };
 
-const performSelfCheck = async (model: string, endpoint: string): Promise<void> => {
+const performSelfCheck = async (model: string, endpoint: string, signal?: AbortSignal): Promise<void> => {
+    // Replayed responses come from a fixture; there is no key to check.
+    if (isReplaying()) return;
     logger.logInfo("Performing self-check before operation...", { model, endpoint });
     
     const firstAvailableKey = keyPool.find(k => isKeyAvailable(k));
@@ -335,8 +810,9 @@ const performSelfCheck = async (model: string, endpoint: string): Promise<void>
     }
 
     try {
-        await checkApiKey(firstAvailableKey.value, model, endpoint);
+        await checkApiKey(firstAvailableKey.value, model, endpoint, signal);
     } catch (error) {
+        if (error instanceof CancelledError) throw error;
         if (error instanceof ConfigError) {
             logger.logError(`Self-check failed: ${error.message}. Halting operation.`, { model, endpoint });
             throw error;
@@ -351,40 +827,298 @@ const mapAppConfigToRestPayload = (config: any = {}) => {
     if (config.systemInstruction) payload.systemInstruction = { parts: [{ text: config.systemInstruction }] };
     if (config.responseMimeType) generationConfig.responseMimeType = config.responseMimeType;
     if (config.responseSchema) generationConfig.responseSchema = config.responseSchema;
-    if (config.thinkingConfig) payload.thinkingConfig = config.thinkingConfig;
+    if (config.thinkingConfig) generationConfig.thinkingConfig = config.thinkingConfig;
     if (Object.keys(generationConfig).length > 0) payload.generationConfig = generationConfig;
     return payload;
 };
 
+// --- LLM Providers ---
+
+const toGeminiPart = (part: LlmPart): GeminiPart => part.type === 'text'
+    ? { text: part.text }
+    : { inlineData: { mimeType: part.mimeType, data: part.data } };
+
+const createGeminiProvider = (endpoint: string): LlmProvider => ({
+    id: 'gemini',
+    selfCheck: (model, signal) => performSelfCheck(model, endpoint, signal),
+    generate: async (request: LlmRequest) => {
+        const userContent: GeminiContent = { role: 'user', parts: request.parts.map(toGeminiPart) };
+        const thinkingConfig = request.disableThinking ? { thinkingBudget: 0 } : undefined;
+        const payload = {
+            contents: [userContent],
+            ...mapAppConfigToRestPayload({
+                systemInstruction: request.systemInstruction,
+                responseMimeType: request.responseMimeType,
+                responseSchema: request.responseSchema,
+                thinkingConfig,
+            })
+        };
+        const options = { operation: request.operation, stream: !!request.onChunk, signal: request.signal };
+        const response = createTextResponse(await makeGoogleApiCall(request.model, endpoint, payload, 'POST', { ...options, onChunk: request.onChunk }));
+        return completeTruncatedResponse(request, response, endpoint, async (textSoFar, onChunk) => {
+            const continuationPayload = {
+                contents: [userContent, { role: 'model', parts: [{ text: textSoFar }] }, { role: 'user', parts: [{ text: CONTINUATION_PROMPT }] }],
+                ...mapAppConfigToRestPayload({ systemInstruction: request.systemInstruction, thinkingConfig }),
+            };
+            return createTextResponse(await makeGoogleApiCall(request.model, endpoint, continuationPayload, 'POST', { ...options, onChunk }));
+        });
+    },
+});
+
+/**
+ * Returns the text-generation provider selected in the settings.
+ */
+export const getLlmProvider = (settings: AppSettings): LlmProvider => {
+    switch (settings.llmProvider) {
+        case 'openai': return createOpenAiCompatibleProvider(settings.llmBaseUrl, settings.llmApiKey);
+        case 'ollama': return createOllamaProvider(settings.llmBaseUrl);
+        case 'fake': return createFakeProvider(settings.fakeFailureMode, getKeyPoolState());
+        case 'gemini':
+        default: return createGeminiProvider(settings.geminiEndpoint);
+    }
+};
+
+// --- Model Routing ---
+const MEDIA_ENDPOINT = 'generativelanguage.googleapis.com/v1beta';
+const DEFAULT_MEDIA_MODELS = {
+    image: 'imagen-4.0-generate-001',
+    imageEdit: 'gemini-2.5-flash-image',
+    video: 'veo-2.0-generate-001',
+};
+
+/**
+ * Returns the models to try for a task, primary first, then the route's fallback.
+ * Text routes only apply to Gemini; other providers always use their single configured model.
+ * An empty route model means the provider's default model.
+ */
+const getRouteModels = (settings: AppSettings, operation: UsageOperation): string[] => {
+    const route = settings.modelRoutes?.[operation];
+    let primary: string;
+    if (operation === 'image' || operation === 'imageEdit' || operation === 'video') {
+        primary = route?.model || DEFAULT_MEDIA_MODELS[operation];
+    } else if (settings.llmProvider === 'fake') {
+        return [FAKE_MODEL];
+    } else if (settings.llmProvider && settings.llmProvider !== 'gemini') {
+        return [settings.llmModel];
+    } else {
+        primary = route?.model || settings.geminiModel;
+    }
+    return [primary, route?.fallbackModel].filter((model, i, all): model is string => !!model && all.indexOf(model) === i);
+};
+
+/**
+ * Returns the primary model for a task with the selected provider.
+ */
+export const getTextModel = (settings: AppSettings, operation: UsageOperation = 'plan'): string =>
+    getRouteModels(settings, operation)[0] ?? '';
+
+/**
+ * Resolves the provider and the routed model for a task and runs the self-check on that model.
+ * If the model does not exist (ConfigError), the route's fallback model is checked instead.
+ */
+const prepareProvider = async (settings: AppSettings, operation: UsageOperation, signal?: AbortSignal): Promise<{ provider: LlmProvider; model: string }> => {
+    const provider = getLlmProvider(settings);
+    return withModelFallback(settings, operation, async model => {
+        await provider.selfCheck(model, signal);
+        return { provider, model };
+    });
+};
+
+/**
+ * Tries `attempt` with each model of the task's route until one does not fail with a ConfigError.
+ * @throws The last ConfigError if no model of the route is available, or any other error immediately.
+ */
+const withModelFallback = async <T>(settings: AppSettings, operation: UsageOperation, attempt: (model: string) => Promise<T>): Promise<T> => {
+    const models = getRouteModels(settings, operation);
+    if (models.length === 0) {
+        throw new ConfigError(`Для задачи "${operation}" не задана модель.`, '', settings.geminiEndpoint);
+    }
+    for (let i = 0; ; i++) {
+        try {
+            return await attempt(models[i]);
+        } catch (error) {
+            if (!(error instanceof ConfigError) || i === models.length - 1) throw error;
+            logger.logWarning(`Model ${models[i]} is not available for "${operation}". Falling back to ${models[i + 1]}.`, { model: models[i], endpoint: error.endpoint });
+        }
+    }
+};
+
 // --- Public API Functions ---
 
-export const createInitialPlan = async (topic: string, settings: AppSettings): Promise<AppGenerateContentResponse> => {
-    await performSelfCheck(settings.geminiModel, settings.geminiEndpoint);
-    const prompt = `
-Ты - ИИ-режиссер, помогающий пользователю создать структуру для впечатляющей и красивой презентации.
-Тема, заданная пользователем: "${topic}"
-Твоя задача - проанализировать тему и создать первоначальный план (сценарий) презентации. План должен быть логичным, увлекательным и хорошо структурированным.
-ИНСТРУКЦИИ:
-1. Разбей презентацию на 3-5 логических частей (например: ## Вступление, ## Основная часть, ## Кульминация, ## Заключение). Используй заголовки Markdown (##).
-2. Для каждой части предложи краткое, но емкое описание того, о чем в ней пойдет речь.
-3. Для каждой части опиши, какой тип визуального ряда (фотографий) был бы наиболее уместен. Например: "- Широкоугольные пейзажи", "- Портреты с эмоциями", "- Детальные снимки архитектуры". Используй списки Markdown (-).
-4. Ответ должен быть четко структурирован, вдохновляющим и легко читаемым.
-5. Заверши свой ответ обобщающим абзацем, приглашающим пользователя загрузить фотографии, которые соответствуют этому плану.
-6. Твой ответ должен быть исключительно на русском языке.`;
+export const createInitialPlan = async (topic: string, settings: AppSettings, onChunk?: StreamChunkHandler, signal?: AbortSignal): Promise<LlmResponse> => {
+    const { provider, model } = await prepareProvider(settings, 'plan', signal);
+    const prompt = renderPrompt('initialPlan', settings, { topic });
 
-    const payload = {
-        contents: [{ parts: [{ text: prompt }] }],
-        ...mapAppConfigToRestPayload({
-            systemInstruction: "Ты — креативный и полезный ассистент, режиссер, который всегда отвечает на русском языке и помогает создавать великолепные презентации."
-        })
+    return provider.generate({
+        operation: 'plan',
+        model,
+        parts: [{ type: 'text', text: prompt }],
+        systemInstruction: "Ты — креативный и полезный ассистент, режиссер, который всегда отвечает на русском языке и помогает создавать великолепные презентации.",
+        onChunk,
+        signal,
+        context: { topic },
+    });
+};
+
+// --- Storyboard Schema & Validation ---
+const SLIDES_RESPONSE_SCHEMA = {
+    type: 'ARRAY',
+    items: {
+        type: 'OBJECT',
+        properties: {
+            title: { type: 'STRING', description: "Короткий заголовок слайда (2-4 слова)." },
+            script: { type: 'STRING', description: "Текст для диктора (2-3 предложения)." },
+            imageId: { type: 'STRING', nullable: true, description: "ID изображения из списка или null." },
+            speaker: { type: 'INTEGER', description: "Номер диктора, начиная с 0." },
+            textOverlay: { type: 'STRING' },
+            podcastScript: { type: 'STRING' },
+            needsImage: { type: 'BOOLEAN' },
+            suggestions: {
+                type: 'OBJECT',
+                properties: {
+                    search: { type: 'STRING' },
+                    generate: { type: 'STRING' },
+                },
+            },
+        },
+        required: ["title", "script", "imageId", "speaker", "needsImage"],
+    },
+};
+
+const SLIDE_OPERATIONS_SCHEMA = {
+    type: 'ARRAY',
+    items: {
+        type: 'OBJECT',
+        properties: {
+            type: { type: 'STRING', enum: ['insertSlide', 'deleteSlide', 'moveSlide', 'updateField', 'swapImage'] },
+            index: { type: 'INTEGER', description: "Индекс слайда (с 0) в сценарии после предыдущих операций." },
+            toIndex: { type: 'INTEGER', description: "Новая позиция для moveSlide." },
+            field: { type: 'STRING', enum: ['title', 'script', 'textOverlay', 'podcastScript', 'speaker'], description: "Поле для updateField." },
+            value: { type: 'STRING', description: "Новое значение для updateField; для speaker - номер диктора." },
+            imageId: { type: 'STRING', nullable: true, description: "ID изображения для swapImage или null, чтобы убрать изображение." },
+            slide: SLIDES_RESPONSE_SCHEMA.items,
+        },
+        required: ["type", "index"],
+    },
+};
+
+const CHAT_EDIT_RESPONSE_SCHEMA = {
+    type: 'OBJECT',
+    properties: {
+        reply: { type: 'STRING', description: "Короткий ответ пользователю: что изменено и почему, или уточняющий вопрос." },
+        suggestions: { type: 'ARRAY', items: { type: 'STRING' }, description: "2-3 коротких варианта следующей просьбы пользователя." },
+        operations: SLIDE_OPERATIONS_SCHEMA,
+    },
+    required: ["reply", "operations"],
+};
+
+export interface SlidesResponse extends LlmResponse {
+    slides: Slide[];
+    violations: SlideViolation[];
+}
+
+const getSpeakerCount = (settings: AppSettings) => Math.max(2, settings.voiceSettings.voices.length);
+
+/**
+ * Requests a slide array, validates it and auto-repairs what it can. Violations that cannot be
+ * repaired are sent back to the model in a single corrective round-trip.
+ * @throws An error if the corrected answer still contains no valid slides.
+ */
+const generateValidatedSlides = async (provider: LlmProvider, request: LlmRequest, images: UploadedImage[], settings: AppSettings): Promise<SlidesResponse> => {
+    const validationOptions = { imageIds: images.map(img => img.id), speakerCount: getSpeakerCount(settings) };
+    const validate = (text: string) => {
+        try {
+            return validateSlides(JSON.parse(text.trim()), validationOptions);
+        } catch (e) {
+            const violation: SlideViolation = { slideIndex: -1, field: 'root', message: 'Ответ не является валидным JSON.', repaired: false };
+            return { slides: [], violations: [violation], unrepaired: [violation] };
+        }
     };
-    const responseData = await makeGoogleApiCall(settings.geminiModel, settings.geminiEndpoint, payload);
-    return createTextResponse(responseData);
+
+    const response = await provider.generate({ ...request, responseSchema: SLIDES_RESPONSE_SCHEMA });
+    let result = validate(response.text);
+    const repairedCount = result.violations.length - result.unrepaired.length;
+    if (repairedCount > 0) {
+        logger.logWarning(`Auto-repaired ${repairedCount} storyboard violation(s).`, { model: request.model, apiResponse: { violations: result.violations.filter(v => v.repaired) } });
+    }
+    if (result.unrepaired.length === 0) {
+        return { ...response, slides: result.slides, violations: result.violations };
+    }
+
+    logger.logWarning(`Storyboard failed validation (${result.unrepaired.length} error(s)). Requesting a correction.`, { model: request.model, apiResponse: { violations: result.unrepaired } });
+    const correctionPrompt = `Твой предыдущий ответ не прошел проверку.
+
+ТВОЙ ОТВЕТ:
+${response.text}
+
+ОШИБКИ:
+${formatViolations(result.unrepaired)}
+
+Исправь ошибки и верни ПОЛНЫЙ исправленный JSON-массив слайдов. Без комментариев.`;
+    const corrected = await provider.generate({
+        ...request,
+        parts: [...request.parts, { type: 'text', text: correctionPrompt }],
+        responseSchema: SLIDES_RESPONSE_SCHEMA,
+        onChunk: undefined,
+    });
+    result = validate(corrected.text);
+    if (result.slides.length === 0) {
+        logger.logError(`Corrected storyboard is still invalid.`, { model: request.model, apiResponse: { violations: result.unrepaired } });
+        throw new Error(`ИИ вернул некорректный сценарий:\n${formatViolations(result.unrepaired)}`);
+    }
+    if (result.unrepaired.length > 0) {
+        logger.logWarning(`Dropped ${result.unrepaired.length} invalid slide(s) after correction.`, { model: request.model, apiResponse: { violations: result.unrepaired } });
+    }
+    return { ...corrected, slides: result.slides, violations: result.violations };
 };
 
-const imageToPart = (image: UploadedImage): GeminiPart => ({
-    inlineData: { mimeType: image.file.type, data: image.base64 }
-});
+// Keyed by image ID and preprocessing settings, so each image is only re-encoded once per configuration.
+// Least recently used first (Map insertion order); bounded because every entry holds a re-encoded photo.
+const preparedImages = new Map<string, Promise<PreprocessedImage>>();
+const MAX_PREPARED_IMAGES = 50;
+
+const formatKilobytes = (bytes: number) => `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * Returns the bytes to send to a model for an image: downscaled and re-encoded when preprocessing is on,
+ * the original otherwise or if the browser cannot decode it. `UploadedImage.base64` is never modified.
+ */
+const prepareImageData = (image: UploadedImage, settings: AppSettings): Promise<PreprocessedImage> => {
+    const options = settings.imagePreprocessing;
+    const original = (): PreprocessedImage => {
+        const bytes = base64ByteLength(image.base64);
+        return { data: image.base64, mimeType: image.file.type, originalBytes: bytes, processedBytes: bytes };
+    };
+    if (!options?.enabled) return Promise.resolve(original());
+
+    const cacheKey = `${image.id}:${options.maxLongEdge}:${options.format}:${options.quality}`;
+    let prepared = preparedImages.get(cacheKey);
+    if (prepared) {
+        preparedImages.delete(cacheKey);
+        preparedImages.set(cacheKey, prepared);
+    } else {
+        prepared = preprocessImage(image.base64, image.file.type, options)
+            .then(result => {
+                const saved = result.originalBytes - result.processedBytes;
+                logger.logInfo(`Image ${image.id} preprocessed: ${formatKilobytes(result.originalBytes)} → ${formatKilobytes(result.processedBytes)} (saved ${formatKilobytes(saved)}, ${Math.round(saved / Math.max(1, result.originalBytes) * 100)}%)`);
+                return result;
+            })
+            .catch(error => {
+                logger.logWarning(`Image ${image.id} could not be preprocessed, sending the original: ${error instanceof Error ? error.message : String(error)}`);
+                return original();
+            });
+        preparedImages.set(cacheKey, prepared);
+        while (preparedImages.size > MAX_PREPARED_IMAGES) {
+            preparedImages.delete(preparedImages.keys().next().value!);
+        }
+    }
+    return prepared;
+};
+
+const imageToPart = async (image: UploadedImage, settings: AppSettings): Promise<LlmPart> => {
+    const { data, mimeType } = await prepareImageData(image, settings);
+    return { type: 'image', mimeType, data };
+};
 
 const formatExifForPrompt = (exif: ExifData | undefined): string => {
     if (!exif) return '';
@@ -394,50 +1128,81 @@ const formatExifForPrompt = (exif: ExifData | undefined): string => {
     return `(Метаданные: ${parts.join(', ')})`;
 };
 
-export const analyzeNextFrame = async (currentImage: UploadedImage, previousImages: UploadedImage[], currentStorySummary: string, settings: AppSettings): Promise<{ imageDescription: string; updatedStory: string; }> => {
-    await performSelfCheck(settings.geminiModel, settings.geminiEndpoint);
+export interface FrameAnalysis {
+    imageDescription: string;
+    updatedStory: string;
+    cached: boolean;
+}
+
+/**
+ * Prompt versions stored with analysis cache entries. Batch results also depend on the batch template,
+ * so they are keyed by both templates; either kind of entry can serve a frame.
+ */
+const getAnalysisPromptVersions = (settings: AppSettings): { frame: string; batch: string } => {
+    const frame = getTemplateVersion('analyzeFrame', settings);
+    return { frame, batch: `${frame}+${getTemplateVersion('analyzeBatch', settings)}` };
+};
+
+export const analyzeNextFrame = async (currentImage: UploadedImage, previousImages: UploadedImage[], currentStorySummary: string, settings: AppSettings, signal?: AbortSignal): Promise<FrameAnalysis> => {
+    // Identical bytes analyzed with the same model and prompt are served from the local cache.
+    const imageHash = await sha256Hex(currentImage.base64);
+    const cacheModel = `${settings.llmProvider}:${getTextModel(settings, 'analysis')}`;
+    const promptVersions = getAnalysisPromptVersions(settings);
+    const storyContextHash = await sha256Hex(currentStorySummary);
+    const cached = await getCachedAnalysis(imageHash, cacheModel, [promptVersions.frame, promptVersions.batch]);
+    if (cached) {
+        logger.logSuccess(`Analysis cache hit for image ${currentImage.id}. Skipping API call.`, { model: cacheModel });
+        // The cached story only applies if it was built on the same story so far; otherwise extend the current one.
+        const updatedStory = cached.storyContextHash === storyContextHash
+            ? cached.updatedStory
+            : [currentStorySummary, cached.description].filter(Boolean).join(' ');
+        return { imageDescription: cached.description, updatedStory, cached: true };
+    }
+
+    const { provider, model } = await prepareProvider(settings, 'analysis', signal);
     const previousContext = previousImages.length > 0 ? `Контекст предыдущих кадров:\n${previousImages.map((img, i) => `Кадр ${i + 1}: ${img.description}`).join('\n')}` : 'Это первый кадр для анализа.';
     const locationInfo = currentImage.locationDescription ? `Место съемки: ${currentImage.locationDescription}.` : '';
     const exifInfo = formatExifForPrompt(currentImage.exif);
     
-    const prompt = `
-Ты - ИИ-режиссер, твоя задача - проанализировать серию фотографий и создать из них связную историю.
-Сейчас ты работаешь над одним кадром в контексте всей истории.
-    
-КРАТКОЕ ОПИСАНИЕ УЖЕ СЛОЖИВШЕЙСЯ ИСТОРИИ:
-"${currentStorySummary || 'История еще не началась.'}"
-    
-${previousContext}
-    
-ДАННЫЕ НОВОГО КАДРА (КАДР №${previousImages.length + 1}):
-${locationInfo} ${exifInfo}
-Проанализируй приложенное изображение.
-    
-ТВОЯ ЗАДАЧА:
-Верни JSON с двумя полями:
-1.  "imageDescription": Кратко, в ОДНОМ предложении, опиши, что происходит на этом кадре и как он связан с предыдущими. Это описание будет показано пользователю.
-2.  "updatedStory": Основываясь на всей имеющейся информации (старая история + новый кадр), напиши ОБНОВЛЕННУЮ и БОЛЕЕ ДЕТАЛИЗИРОВАННУЮ общую сюжетную линию для всей презентации. Этот текст должен быть связным рассказом на 3-5 предложений.
-`;
+    const prompt = renderPrompt('analyzeFrame', settings, {
+        storySummary: currentStorySummary || 'История еще не началась.',
+        previousContext,
+        frameNumber: previousImages.length + 1,
+        locationInfo,
+        exifInfo,
+    });
     
-    const payload = {
-        contents: [{ parts: [{ text: prompt }, imageToPart(currentImage)] }],
-        generationConfig: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: 'OBJECT',
-                properties: {
-                    imageDescription: { type: 'STRING', description: "Краткое описание нового кадра (1 предложение) в контексте истории." },
-                    updatedStory: { type: 'STRING', description: "Обновленный и более детализированный общий план презентации." }
-                },
-                required: ["imageDescription", "updatedStory"]
-            }
+    const response = await provider.generate({
+        operation: 'analysis',
+        model,
+        parts: [{ type: 'text', text: prompt }, await imageToPart(currentImage, settings)],
+        responseMimeType: "application/json",
+        signal,
+        context: { storySummary: currentStorySummary, frameNumber: previousImages.length + 1, location: currentImage.locationDescription },
+        responseSchema: {
+            type: 'OBJECT',
+            properties: {
+                imageDescription: { type: 'STRING', description: "Краткое описание нового кадра (1 предложение) в контексте истории." },
+                updatedStory: { type: 'STRING', description: "Обновленный и более детализированный общий план презентации." }
+            },
+            required: ["imageDescription", "updatedStory"]
         }
-    };
-
-    const response = createTextResponse(await makeGoogleApiCall(settings.geminiModel, settings.geminiEndpoint, payload));
+    });
     try {
         const result = JSON.parse(response.text.trim());
-        if (result.imageDescription && result.updatedStory) return result;
+        if (result.imageDescription && result.updatedStory) {
+            putCachedAnalysis({
+                hash: imageHash,
+                description: result.imageDescription,
+                updatedStory: result.updatedStory,
+                storyContextHash,
+                locationDescription: currentImage.locationDescription,
+                model: cacheModel,
+                promptVersion: promptVersions.frame,
+                createdAt: Date.now(),
+            });
+            return { imageDescription: result.imageDescription, updatedStory: result.updatedStory, cached: false };
+        }
         throw new Error("JSON response from AI is missing required keys.");
     } catch (e) {
         console.error("Failed to parse JSON from AI:", response.text, e);
@@ -445,125 +1210,404 @@ ${locationInfo} ${exifInfo}
     }
 };
 
-export const generateStoryboard = async (finalStory: string, images: UploadedImage[], settings: AppSettings): Promise<AppGenerateContentResponse> => {
-    await performSelfCheck(settings.geminiModel, settings.geminiEndpoint);
-    const imageContext = images.map((img, i) => `- ID изображения: ${img.id}, Описание: ${img.description || 'общее фото'}`).join('\n');
-    const prompt = `Ты — ИИ-режиссер. Твоя задача — создать детальный сценарий для видео-презентации.
-    
-ФИНАЛЬНАЯ ВЕРСИЯ ИСТОРИИ, одобренная пользователем:
-"${finalStory}"
-    
-ДОСТУПНЫЕ ИЗОБРАЖЕНИЯ (кадры):
-${imageContext}
-    
-ИНСТРУКЦИИ:
-1.  Создай массив JSON объектов, где каждый объект — это один слайд.
-2.  Для каждого слайда подбери наиболее подходящее изображение из списка по его ID. **Не придумывай новые ID!**
-3.  Если для какого-то логического шага истории нет подходящего изображения, создай слайд с \`"imageId": null\` и \`"needsImage": true\`.
-4.  Включи в каждый объект слайда следующие поля:
-    *   \`title\` (string): Короткий, емкий заголовок (2-4 слова).
-    *   \`script\` (string): Текст для диктора (2-3 предложения).
-    *   \`imageId\` (string | null): ID изображения из списка выше или null.
-    *   \`speaker\` (number): Номер диктора (0 или 1, чередуй их для диалога).
-    *   \`textOverlay\` (string): (Опционально) Короткая фраза для отображения поверх видео.
-    *   \`podcastScript\` (string): (Опционально) Альтернативный, более разговорный текст для "режима подкаста".
-    *   \`needsImage\` (boolean): \`true\`, если нужно найти или сгенерировать изображение.
-    *   \`suggestions\` (object, опционально): Если \`needsImage\` is \`true\`, предложи варианты:
-        *   \`search\` (string): Поисковый запрос для Pexels.
-        *   \`generate\` (string): Промпт для генерации изображения.
-    
-5.  Твой ответ должен быть ТОЛЬКО валидным JSON-массивом. Без лишних слов и markdown.
-`;
+export interface BatchAnalysis {
+    descriptions: Record<string, string>; // Keyed by image ID
+    cachedIds: string[];
+    updatedStory: string;
+}
 
-    const payload = {
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-             responseMimeType: "application/json",
+/**
+ * Analyzes several frames in one request. Frames with a cached analysis are not sent again;
+ * if every frame is cached, no request is made and the story is extended with their descriptions.
+ * @throws An error if the model leaves any sent frame without a description.
+ */
+export const analyzeFrameBatch = async (batch: UploadedImage[], previousImages: UploadedImage[], currentStorySummary: string, settings: AppSettings, signal?: AbortSignal): Promise<BatchAnalysis> => {
+    const cacheModel = `${settings.llmProvider}:${getTextModel(settings, 'analysis')}`;
+    // Batches share the per-frame cache; their own entries are keyed by the batch template as well.
+    const promptVersions = getAnalysisPromptVersions(settings);
+    const storyContextHash = await sha256Hex(currentStorySummary);
+    const hashes = await Promise.all(batch.map(img => sha256Hex(img.base64)));
+
+    const descriptions: Record<string, string> = {};
+    const cachedIds: string[] = [];
+    const toSend: UploadedImage[] = [];
+    for (const [i, image] of batch.entries()) {
+        const cached = await getCachedAnalysis(hashes[i], cacheModel, [promptVersions.frame, promptVersions.batch]);
+        if (cached) {
+            descriptions[image.id] = cached.description;
+            cachedIds.push(image.id);
+        } else {
+            toSend.push(image);
         }
-    };
-    const responseData = await makeGoogleApiCall(settings.geminiModel, settings.geminiEndpoint, payload);
-    return createTextResponse(responseData);
+    }
+    if (cachedIds.length > 0) {
+        logger.logSuccess(`Analysis cache hit for ${cachedIds.length} of ${batch.length} frame(s) in batch.`, { model: cacheModel });
+    }
+    if (toSend.length === 0) {
+        const updatedStory = [currentStorySummary, ...batch.map(img => descriptions[img.id])].filter(Boolean).join(' ');
+        return { descriptions, cachedIds, updatedStory };
+    }
+
+    const { provider, model } = await prepareProvider(settings, 'analysis', signal);
+    const firstFrameNumber = previousImages.length + 1;
+    const previousContext = previousImages.length > 0 ? `Контекст предыдущих кадров:\n${previousImages.map((img, i) => `Кадр ${i + 1}: ${img.description}`).join('\n')}` : 'Это первые кадры для анализа.';
+    const frameList = toSend.map((img, i) => {
+        const locationInfo = img.locationDescription ? ` Место съемки: ${img.locationDescription}.` : '';
+        return `Кадр ${firstFrameNumber + i}, ID: ${img.id}.${locationInfo} ${formatExifForPrompt(img.exif)}`.trim();
+    }).join('\n');
+    const prompt = renderPrompt('analyzeBatch', settings, {
+        storySummary: currentStorySummary || 'История еще не началась.',
+        previousContext,
+        frameCount: toSend.length,
+        frameList,
+    });
+
+    const imageParts = await Promise.all(toSend.map(img => imageToPart(img, settings)));
+    const response = await provider.generate({
+        operation: 'analysis',
+        model,
+        parts: [{ type: 'text', text: prompt }, ...toSend.flatMap((img, i): LlmPart[] => [{ type: 'text', text: `ID: ${img.id}` }, imageParts[i]])],
+        responseMimeType: "application/json",
+        signal,
+        context: { storySummary: currentStorySummary, frameNumber: firstFrameNumber, images: toSend.map(({ id, locationDescription }) => ({ id, description: locationDescription })) },
+        responseSchema: {
+            type: 'OBJECT',
+            properties: {
+                frames: {
+                    type: 'ARRAY',
+                    items: {
+                        type: 'OBJECT',
+                        properties: {
+                            imageId: { type: 'STRING' },
+                            imageDescription: { type: 'STRING', description: "Краткое описание кадра (1 предложение) в контексте истории." },
+                        },
+                        required: ["imageId", "imageDescription"],
+                    },
+                },
+                updatedStory: { type: 'STRING', description: "Обновленный и более детализированный общий план презентации." },
+            },
+            required: ["frames", "updatedStory"],
+        },
+    });
+
+    let result: any;
+    try {
+        result = JSON.parse(response.text.trim());
+    } catch (e) {
+        console.error("Failed to parse JSON from AI:", response.text, e);
+        throw new Error("Не удалось обработать ответ от ИИ. Ответ не является валидным JSON.");
+    }
+    for (const frame of Array.isArray(result?.frames) ? result.frames : []) {
+        if (typeof frame?.imageId === 'string' && typeof frame.imageDescription === 'string' && toSend.some(img => img.id === frame.imageId)) {
+            descriptions[frame.imageId] = frame.imageDescription;
+        }
+    }
+    const missing = toSend.filter(img => !descriptions[img.id]);
+    if (missing.length > 0 || typeof result?.updatedStory !== 'string') {
+        logger.logError(`Batch analysis response is incomplete.`, { model, apiResponse: { missingIds: missing.map(img => img.id), response: result } });
+        throw new Error(`ИИ вернул неполный ответ: нет описания для ${missing.length} кадр(ов) пакета.`);
+    }
+
+    toSend.forEach(img => putCachedAnalysis({
+        hash: hashes[batch.indexOf(img)],
+        description: descriptions[img.id],
+        updatedStory: result.updatedStory,
+        storyContextHash,
+        locationDescription: img.locationDescription,
+        model: cacheModel,
+        promptVersion: promptVersions.batch,
+        createdAt: Date.now(),
+    }));
+    return { descriptions, cachedIds, updatedStory: result.updatedStory };
 };
 
-export const continueChat = async (messages: ChatMessage[], images: UploadedImage[], slides: Slide[], settings: AppSettings): Promise<AppGenerateContentResponse> => {
-    await performSelfCheck(settings.geminiModel, settings.geminiEndpoint);
-    const history = messages.map(msg => `${msg.role === 'user' ? 'Пользователь' : 'ИИ-Режиссер'}: ${msg.parts[0].text}`).join('\n\n');
-    const currentStoryboard = JSON.stringify(slides, null, 2);
-    const prompt = `Ты — ИИ-режиссер, и ты помогаешь пользователю редактировать сценарий презентации.
-    
-ТЕКУЩИЙ СЦЕНАРИЙ (в формате JSON):
-${currentStoryboard}
+/**
+ * Combines independently described frames into one story line (the last step of the parallel analysis mode).
+ * @param images Analyzed images in upload order.
+ */
+export const mergeStoryFromDescriptions = async (images: UploadedImage[], settings: AppSettings, signal?: AbortSignal): Promise<string> => {
+    const { provider, model } = await prepareProvider(settings, 'analysis', signal);
+    const descriptions = images.map(img => img.description || 'общее фото');
+    const prompt = renderPrompt('storyMerge', settings, {
+        frameCount: images.length,
+        frameDescriptions: descriptions.map((description, i) => `Кадр ${i + 1}: ${description}`).join('\n'),
+    });
+    const response = await provider.generate({
+        operation: 'analysis',
+        model,
+        parts: [{ type: 'text', text: prompt }],
+        signal,
+        context: { descriptions },
+    });
+    const story = response.text.trim();
+    if (!story) throw new Error("ИИ вернул пустую историю.");
+    return story;
+};
 
-ИСТОРИЯ ПЕРЕПИСКИ:
-${history}
+export const generateStoryboard = async (finalStory: string, images: UploadedImage[], settings: AppSettings, signal?: AbortSignal): Promise<SlidesResponse> => {
+    const { provider, model } = await prepareProvider(settings, 'storyboard', signal);
+    const imageContext = images.map((img, i) => `- ID изображения: ${img.id}, Описание: ${img.description || 'общее фото'}`).join('\n');
+    const prompt = renderPrompt('storyboard', settings, { finalStory, imageContext, maxSpeaker: getSpeakerCount(settings) - 1 });
 
-ЗАДАЧА:
-Проанализируй последнее сообщение пользователя и ВНЕСИ ИЗМЕНЕНЕИЯ в JSON-сценарий.
-Твой ответ должен быть ТОЛЬКО обновленным JSON-массивом слайдов. Без комментариев.`;
+    return generateValidatedSlides(provider, {
+        operation: 'storyboard',
+        model,
+        parts: [{ type: 'text', text: prompt }],
+        responseMimeType: "application/json",
+        signal,
+        context: { images: images.map(({ id, description }) => ({ id, description })), speakerCount: getSpeakerCount(settings) },
+    }, images, settings);
+};
 
-    const payload = {
-        contents: [{ parts: [{ text: prompt }] }],
-        ...mapAppConfigToRestPayload({
-            systemInstruction: "Ты — полезный ассистент, режиссер, который всегда отвечает на русском языке и возвращает данные в формате JSON.",
-            responseMimeType: "application/json"
-        })
-    };
-    const responseData = await makeGoogleApiCall(settings.geminiModel, settings.geminiEndpoint, payload);
-    return createTextResponse(responseData);
+export interface ChatEditResponse extends LlmResponse {
+    reply: string;
+    suggestions: string[];
+    slides: Slide[];
+    outcomes: SlideOperationOutcome[];
+}
+
+// The director sees its own earlier explanations together with the edits that were actually applied.
+const formatChatTurn = (msg: ChatMessage): string => {
+    if (msg.role === 'user') return `Пользователь: ${msg.parts[0].text}`;
+    const applied = (msg.operations || []).filter(op => op.applied).map(op => `- ${op.description}`);
+    return [`ИИ-Режиссер: ${msg.parts[0].text}`, ...applied].join('\n');
 };
 
-export const suggestMusic = async (concept: string, slides: Slide[], settings: AppSettings): Promise<AppGenerateContentResponse> => {
-    await performSelfCheck(settings.geminiModel, settings.geminiEndpoint);
+/**
+ * Asks the director for a reply and storyboard edits as a list of operations, and applies them to `slides`.
+ * @param onPreview Called while streaming with the storyboard after the operations received so far.
+ * @throws An error if the answer is not valid JSON.
+ */
+export const continueChat = async (messages: ChatMessage[], images: UploadedImage[], slides: Slide[], settings: AppSettings, onPreview?: (slides: Slide[]) => void, signal?: AbortSignal): Promise<ChatEditResponse> => {
+    const { provider, model } = await prepareProvider(settings, 'chat', signal);
+    const history = messages.map(formatChatTurn).join('\n\n');
+    const currentStoryboard = JSON.stringify(slides.map((slide, index) => ({ index, ...slide })), null, 2);
+    const prompt = renderPrompt('chatEdit', settings, {
+        currentStoryboard,
+        history,
+        imageIds: images.map(img => img.id).join(', ') || 'нет изображений',
+        maxSpeaker: getSpeakerCount(settings) - 1,
+    });
+    const operationOptions = { imageIds: images.map(img => img.id), speakerCount: getSpeakerCount(settings) };
+
+    const response = await provider.generate({
+        operation: 'chat',
+        model,
+        parts: [{ type: 'text', text: prompt }],
+        systemInstruction: "Ты — полезный ассистент, режиссер, который всегда отвечает на русском языке и возвращает данные в формате JSON.",
+        responseMimeType: "application/json",
+        responseSchema: CHAT_EDIT_RESPONSE_SCHEMA,
+        onChunk: onPreview && (partialJson => onPreview(applySlideOperations(parseCompleteObjectsFromPartialJson(partialJson, 'operations'), slides, operationOptions).slides)),
+        signal,
+        context: {
+            slides,
+            userMessage: [...messages].reverse().find(msg => msg.role === 'user')?.parts[0].text,
+            images: images.map(({ id, description }) => ({ id, description })),
+            speakerCount: getSpeakerCount(settings),
+        },
+    });
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(response.text.trim());
+    } catch (e) {
+        logger.logError('Chat edit is not valid JSON.', { model, apiResponse: response.text });
+        throw new Error('ИИ вернул некорректный ответ. Попробуйте переформулировать запрос.');
+    }
+    // A bare array is accepted for custom templates that still ask only for operations.
+    const rawOperations = Array.isArray(parsed) ? parsed : parsed?.operations ?? [];
+    const { slides: editedSlides, outcomes } = applySlideOperations(rawOperations, slides, operationOptions);
+    const rejected = outcomes.filter(outcome => !outcome.applied);
+    if (rejected.length > 0) {
+        logger.logWarning(`Skipped ${rejected.length} of ${outcomes.length} chat edit operation(s).`, { model, apiResponse: { rejected } });
+    }
+    const reply = typeof parsed?.reply === 'string' && parsed.reply.trim()
+        ? parsed.reply.trim()
+        : outcomes.some(outcome => outcome.applied) ? 'Готово, правки внесены.' : 'Я не внес изменений.';
+    const suggestions = Array.isArray(parsed?.suggestions)
+        ? parsed.suggestions.filter((item: unknown): item is string => typeof item === 'string' && item.trim().length > 0).slice(0, 4)
+        : [];
+    return { ...response, reply, suggestions, slides: editedSlides, outcomes };
+};
+
+export const suggestMusic = async (concept: string, slides: Slide[], settings: AppSettings, signal?: AbortSignal): Promise<LlmResponse> => {
+    const { provider, model } = await prepareProvider(settings, 'music', signal);
     const storySummary = slides.map(s => s.script).join(' ');
-    const prompt = `Проанализируй концепцию ("${concept}") и краткое содержание ("${storySummary}") презентации.
-Предложи 3-5 настроений для фоновой музыки в виде JSON-массива строк. Например: ["upbeat", "cinematic", "reflective"].
-Ответ должен быть только JSON-массивом.`;
-    const payload = {
-        contents: [{ parts: [{ text: prompt }] }],
-        ...mapAppConfigToRestPayload({ responseMimeType: "application/json" })
+    const prompt = renderPrompt('music', settings, { concept, storySummary });
+    return provider.generate({
+        operation: 'music',
+        model,
+        parts: [{ type: 'text', text: prompt }],
+        responseMimeType: "application/json",
+        signal,
+        context: { topic: concept, slides },
+    });
+};
+
+// --- Image Generation ---
+export const IMAGE_STYLE_PRESETS: { id: string; name: string; prefix: string }[] = [
+    { id: 'cinematic', name: 'Кино', prefix: 'cinematic photo, ' },
+    { id: 'photo', name: 'Фотореализм', prefix: 'photorealistic photo, natural light, high detail, ' },
+    { id: 'illustration', name: 'Иллюстрация', prefix: 'digital illustration, ' },
+    { id: 'watercolor', name: 'Акварель', prefix: 'watercolor painting, ' },
+    { id: '3d', name: '3D', prefix: '3d render, soft lighting, ' },
+    { id: 'minimal', name: 'Минимализм', prefix: 'minimalist flat design, ' },
+    { id: 'none', name: 'Без стиля', prefix: '' },
+];
+
+export const DEFAULT_IMAGE_GENERATION: Omit<ImageGenerationParams, 'prompt'> = {
+    stylePreset: 'cinematic',
+    negativePrompt: '',
+    aspectRatio: '16:9',
+    variantCount: 1,
+};
+
+/**
+ * Generates one or more image variants.
+ * @returns Base64-encoded images without the data URL prefix, one per variant.
+ */
+export const generateImage = async (params: ImageGenerationParams, settings: AppSettings, signal?: AbortSignal): Promise<string[]> => {
+    const preset = IMAGE_STYLE_PRESETS.find(p => p.id === params.stylePreset);
+    const prompt = `${preset?.prefix || ''}${params.prompt.trim()}`;
+    const variantCount = Math.min(4, Math.max(1, Math.round(params.variantCount)));
+
+    if (settings.llmProvider === 'fake') {
+        const variants: string[] = [];
+        for (let i = 0; i < variantCount; i++) {
+            variants.push(await generateFakeImage(variantCount > 1 ? `${prompt} #${i + 1}` : prompt, params.aspectRatio, settings.fakeFailureMode, getKeyPoolState(), signal));
+        }
+        return variants;
+    }
+    const payload: any = {
+        prompt,
+        number_of_images: variantCount,
+        aspect_ratio: params.aspectRatio,
     };
-    const responseData = await makeGoogleApiCall(settings.geminiModel, settings.geminiEndpoint, payload);
-    return createTextResponse(responseData);
+    if (params.negativePrompt.trim()) payload.negative_prompt = params.negativePrompt.trim();
+    const responseData = await withModelFallback(settings, 'image', model =>
+        makeGoogleApiCall(model, MEDIA_ENDPOINT, payload, 'POST', { operation: 'image', signal }));
+    const variants: string[] = (responseData.generated_images || []).map((item: any) => item.image?.image_bytes).filter(Boolean);
+    if (variants.length === 0) {
+        throw new Error('Модель не вернула ни одного изображения. Возможно, запрос был отклонен фильтром безопасности.');
+    }
+    return variants;
 };
 
-export const generateImage = async (query: string): Promise<string> => {
+/**
+ * Edits a photo according to a free-form instruction with a Gemini image model.
+ * @returns The edited image; the caller stores it as a new UploadedImage linked to the source.
+ * @throws An error if the model answered without an image (e.g. refused the edit).
+ */
+// Inline request data is limited to 20 MB; the base64 image must fit together with the prompt.
+const EDIT_MAX_INLINE_LENGTH = 18 * 1024 * 1024;
+const EDIT_OVERSIZE_OPTIONS: ImagePreprocessSettings = { enabled: true, maxLongEdge: 4096, format: 'image/jpeg', quality: 0.92 };
+
+/**
+ * The edited image replaces the original in slides and exports, so it is built from the full-resolution
+ * original, not the analysis preprocessing copy. Only images over the request limit are scaled down.
+ */
+const prepareEditImageData = async (image: UploadedImage): Promise<{ data: string; mimeType: string }> => {
+    if (image.base64.length <= EDIT_MAX_INLINE_LENGTH) return { data: image.base64, mimeType: image.file.type };
+    const { data, mimeType, originalBytes, processedBytes } = await preprocessImage(image.base64, image.file.type, EDIT_OVERSIZE_OPTIONS);
+    logger.logInfo(`Image ${image.id} is too large to edit inline: ${formatKilobytes(originalBytes)} → ${formatKilobytes(processedBytes)}`);
+    return { data, mimeType };
+};
+
+export const editImage = async (image: UploadedImage, instruction: string, settings: AppSettings, signal?: AbortSignal): Promise<{ base64: string; mimeType: string }> => {
+    const { data, mimeType } = await prepareEditImageData(image);
+    if (settings.llmProvider === 'fake') {
+        return editFakeImage(data, mimeType, instruction, settings.fakeFailureMode, getKeyPoolState(), signal);
+    }
     const payload = {
-        prompt: `cinematic photo, ${query}`,
-        number_of_images: 1,
-        aspect_ratio: "16:9"
+        contents: [{ parts: [
+            { inlineData: { mimeType, data } },
+            { text: renderPrompt('imageEdit', settings, { instruction }) },
+        ] }],
+        generationConfig: { responseModalities: ['TEXT', 'IMAGE'] },
     };
-    const responseData = await makeGoogleApiCall('imagen-4.0-generate-001', 'generativelanguage.googleapis.com/v1beta', payload);
-    return responseData.generated_images[0].image.image_bytes;
+    const responseData = await withModelFallback(settings, 'imageEdit', model =>
+        makeGoogleApiCall(model, MEDIA_ENDPOINT, payload, 'POST', { operation: 'imageEdit', signal }));
+    const parts: any[] = responseData.candidates?.[0]?.content?.parts || [];
+    const imagePart = parts.find(part => part.inlineData?.data);
+    if (!imagePart) {
+        const text = parts.map(part => part.text).filter(Boolean).join(' ');
+        throw new Error(`Модель не вернула изображение.${text ? ` Ответ: ${text}` : ''}`);
+    }
+    logger.logSuccess(`Image ${image.id} edited: "${instruction}"`);
+    return { base64: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType || 'image/png' };
 };
 
-export const generateVideo = (slides: Slide[], images: UploadedImage[], style: string): Promise<any> => {
-    const combinedScript = slides.map(s => s.script).join('\n\n');
-    const prompt = `Создай концептуальное видео в стиле "${style}" на основе следующего сценария: ${combinedScript}. Видео должно отражать общее настроение и ключевые моменты истории.`;
-    const seedImage = images[Math.floor(images.length / 2)];
-    
-    const payload: any = { prompt, number_of_videos: 1 };
+// --- Video Generation ---
+
+/**
+ * Starts a long-running Veo operation.
+ * @returns The operation resource; its `name` is what `checkVideoStatus` polls.
+ */
+const startVideoOperation = async (prompt: string, seedImage: UploadedImage | undefined, settings: AppSettings, signal?: AbortSignal): Promise<{ name: string }> => {
+    const instance: any = { prompt };
     if (seedImage) {
-        payload.image = { image_bytes: seedImage.base64, mime_type: seedImage.file.type };
+        const { data, mimeType } = await prepareImageData(seedImage, settings);
+        instance.image = { bytesBase64Encoded: data, mimeType };
     }
-    return makeGoogleApiCall('veo-2.0-generate-001', 'generativelanguage.googleapis.com/v1beta', { operation: payload }, 'POST');
+    const payload = { instances: [instance], parameters: { aspectRatio: '16:9', sampleCount: 1 } };
+    return withModelFallback(settings, 'video', model =>
+        makeGoogleApiCall(model, MEDIA_ENDPOINT, payload, 'POST', { operation: 'video', action: 'predictLongRunning', signal }));
+};
+
+export const generateVideo = async (slides: Slide[], images: UploadedImage[], style: string, settings: AppSettings, signal?: AbortSignal): Promise<{ name: string }> => {
+    const combinedScript = slides.map(s => s.script).join('\n\n');
+    const prompt = renderPrompt('video', settings, { style, combinedScript });
+    return startVideoOperation(prompt, images[Math.floor(images.length / 2)], settings, signal);
+};
+
+/**
+ * Starts a clip for a single slide, seeded with the slide's image.
+ */
+export const generateSlideClip = async (slide: Slide, image: UploadedImage | undefined, style: string, settings: AppSettings, signal?: AbortSignal): Promise<{ name: string }> => {
+    const prompt = renderPrompt('video', settings, { style, combinedScript: slide.script });
+    return startVideoOperation(prompt, image, settings, signal);
+};
+
+export const checkVideoStatus = (operationName: string, signal?: AbortSignal): Promise<any> => {
+    return makeGoogleApiCall(operationName, MEDIA_ENDPOINT, {}, 'GET', { signal });
 };
 
-export const checkVideoStatus = (operation: any): Promise<any> => {
-    return makeGoogleApiCall(operation.name, 'generativelanguage.googleapis.com/v1beta', {}, 'GET');
+/**
+ * Returns the download URI of a finished video operation, or null if it produced no video.
+ */
+export const getVideoUri = (operation: any): string | null =>
+    operation.response?.generateVideoResponse?.generatedSamples?.[0]?.video?.uri
+    ?? operation.response?.generatedVideos?.[0]?.video?.uri
+    ?? null;
+
+/**
+ * Downloads a generated video into memory. The key is sent in a header, so it never
+ * appears in a URL the user can see, copy or share.
+ */
+export const downloadVideo = async (uri: string, signal?: AbortSignal): Promise<Blob> => {
+    const key = getCurrentApiKey();
+    if (!key) throw new Error('Нет ключа для скачивания видео.');
+    const response = await fetch(uri, { headers: { 'x-goog-api-key': key }, signal });
+    if (!response.ok) {
+        throw new Error(`Не удалось скачать видео: HTTP ${response.status}.`);
+    }
+    return response.blob();
 };
 
-export const checkApiKey = async (key: string, model: string, endpoint: string): Promise<ApiKey['status']> => {
+export const checkApiKey = async (key: string, model: string, endpoint: string, signal?: AbortSignal): Promise<ApiKey['status']> => {
     const maskedKey = `...${key.slice(-4)}`;
     const payload = { contents: [{ parts: [{ text: "health check" }] }] };
+    await acquireRateLimitSlot(key, model, estimatePayloadTokens(payload), signal);
     const startTime = Date.now();
     logger.logInfo(`Checking API key ${maskedKey}`, { maskedKey, model, endpoint, requestPayload: payload });
     try {
         const modelPath = `models/${model}`;
         const url = `https://${endpoint}/${modelPath}:generateContent?key=${key}`;
-        const response = await fetch(url, {
+        const response = await trafficFetch('gemini:check', url, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload)
+            body: JSON.stringify(payload),
+            signal,
         });
         const durationMs = Date.now() - startTime;
         const data = await response.json();
@@ -591,8 +1635,12 @@ export const checkApiKey = async (key: string, model: string, endpoint: string):
                 return 'invalid';
             }
             if (isQuota) {
-                logger.logWarning(`Key ${maskedKey} is exhausted: ${message}`, logDetails);
-                return 'exhausted';
+                if (parseQuotaError(data.error).kind === 'per_day') {
+                    logger.logWarning(`Key ${maskedKey} is exhausted: ${message}`, logDetails);
+                    return 'exhausted';
+                }
+                logger.logWarning(`Key ${maskedKey} is rate limited: ${message}`, logDetails);
+                return 'rate_limited';
             }
         }
         
@@ -600,7 +1648,8 @@ export const checkApiKey = async (key: string, model: string, endpoint: string):
         return 'unknown';
 
     } catch (error: any) {
-        if (error instanceof ConfigError) throw error;
+        if (error instanceof ConfigError || error instanceof ReplayMissError) throw error;
+        if (isAbortError(error, signal)) throw new CancelledError();
         const durationMs = Date.now() - startTime;
         const errorMessage = error.message || 'Network request failed';
         logger.logError(`Key ${maskedKey} check failed (network error): ${errorMessage}`, {
@@ -610,20 +1659,279 @@ export const checkApiKey = async (key: string, model: string, endpoint: string):
     }
 };
 
-export const generateSsmlScript = async (script: string, settings: AppSettings): Promise<AppGenerateContentResponse> => {
-    await performSelfCheck(settings.geminiModel, settings.geminiEndpoint);
-    const prompt = `Преобразуй следующий текст в формат SSML (Speech Synthesis Markup Language) для более естественного звучания. Используй теги <break time="...s"/> для пауз и <emphasis level="..."> для интонаций. Не оборачивай ответ в \`\`\`xml. Верни только чистый SSML код.
-Исходный текст: "${script}"`;
+export const generateSsmlScript = async (script: string, settings: AppSettings, signal?: AbortSignal): Promise<LlmResponse> => {
+    const { provider, model } = await prepareProvider(settings, 'ssml', signal);
+    const prompt = renderPrompt('ssml', settings, { script });
 
-    const payload = {
-        contents: [{ parts: [{ text: prompt }] }],
-        ...mapAppConfigToRestPayload({
-            systemInstruction: "Ты — полезный ассистент, который преобразует текст в SSML.",
-            thinkingConfig: { thinkingBudget: 0 }
-        })
+    return provider.generate({
+        operation: 'ssml',
+        model,
+        parts: [{ type: 'text', text: prompt }],
+        systemInstruction: "Ты — полезный ассистент, который преобразует текст в SSML.",
+        disableThinking: true,
+        signal,
+        context: { script },
+    });
+};
+
+// --- Pre-flight Estimate ---
+const IMAGE_TILE_SIZE = 768; // Images are billed per 768x768 tile, ESTIMATED_TOKENS_PER_IMAGE each
+const FALLBACK_IMAGE_SIZE = { width: 4032, height: 3024 }; // A typical phone photo, for images the browser cannot decode
+const ESTIMATED_DESCRIPTION_TOKENS = 40; // One-sentence frame description
+const ESTIMATED_STORY_TOKENS = 500; // The evolving story plan
+const ESTIMATED_FRAME_LINE_TOKENS = 25; // Per-frame ID, location and EXIF line in batch and storyboard prompts
+const ESTIMATED_SLIDE_TOKENS = 180; // One storyboard slide with its script
+const SSML_MARKUP_FACTOR = 1.5; // SSML output is the slide script plus markup
+export const REDUCED_LONG_EDGE = 768;
+
+export interface PassEstimate {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface KeyBudget {
+    maskedKey: string;
+    label?: string;
+    remaining: number | null; // null: the key has no daily budget
+}
+
+export interface AnalysisEstimate {
+    imageCount: number;
+    cachedCount: number; // Frames answered from the local analysis cache, which cost nothing
+    passes: { analysis: PassEstimate; storyboard: PassEstimate; ssml: PassEstimate };
+    requests: number;
+    totalTokens: number;
+    source: 'countTokens' | 'heuristic';
+    usesKeyPool: boolean; // False for providers that do not use the Gemini keys
+    keyBudgets: KeyBudget[]; // Keys that can still serve requests today
+    remainingBudget: number | null; // null: at least one usable key has no budget
+    exceedsBudget: boolean;
+    maxImagesWithinBudget: number | null; // Largest leading part of the selection that fits; null if all of it fits
+    reducedResolution: { maxLongEdge: number; totalTokens: number } | null; // Estimate with images downscaled to REDUCED_LONG_EDGE
+}
+
+interface PromptBaseTokens {
+    analysis: number;
+    storyMerge: number;
+    storyboard: number;
+    ssml: number;
+}
+
+// Keyed by image ID; decoding every image again on each selection change would be slow.
+const imageSizes = new Map<string, Promise<{ width: number; height: number }>>();
+
+const getImageSize = (image: UploadedImage): Promise<{ width: number; height: number }> => {
+    let size = imageSizes.get(image.id);
+    if (!size) {
+        size = readImageSize(image.base64, image.file.type).catch(() => FALLBACK_IMAGE_SIZE);
+        imageSizes.set(image.id, size);
+    }
+    return size;
+};
+
+const estimateImageTokens = (width: number, height: number): number =>
+    Math.ceil(width / IMAGE_TILE_SIZE) * Math.ceil(height / IMAGE_TILE_SIZE) * ESTIMATED_TOKENS_PER_IMAGE;
+
+const sumPasses = (passes: PassEstimate[]) => passes.reduce(
+    (total, pass) => ({ requests: total.requests + pass.requests, tokens: total.tokens + pass.inputTokens + pass.outputTokens }),
+    { requests: 0, tokens: 0 },
+);
+
+/**
+ * Mirrors the request pattern of `startAnalysis` for the given analysis mode, then the storyboard
+ * and one SSML request per slide (assuming one slide per frame).
+ * @param imageTokens Input tokens of each frame's image, in upload order.
+ * @param cached Frames that the analysis cache answers without a request.
+ */
+const estimatePasses = (imageTokens: number[], cached: boolean[], base: PromptBaseTokens, settings: AppSettings): AnalysisEstimate['passes'] => {
+    const count = imageTokens.length;
+    const analysis: PassEstimate = { requests: 0, inputTokens: 0, outputTokens: 0 };
+    const addRequest = (inputTokens: number, outputTokens: number) => {
+        analysis.requests++;
+        analysis.inputTokens += inputTokens;
+        analysis.outputTokens += outputTokens;
+    };
+
+    if (settings.analysisMode === 'batched') {
+        const batchSize = Math.max(1, settings.analysisBatchSize);
+        for (let start = 0; start < count; start += batchSize) {
+            const toSend = imageTokens.slice(start, start + batchSize).filter((_, i) => !cached[start + i]);
+            if (toSend.length === 0) continue;
+            const images = toSend.reduce((sum, tokens) => sum + tokens, 0);
+            addRequest(
+                base.analysis + images + toSend.length * ESTIMATED_FRAME_LINE_TOKENS + ESTIMATED_STORY_TOKENS + start * ESTIMATED_DESCRIPTION_TOKENS,
+                toSend.length * ESTIMATED_DESCRIPTION_TOKENS + ESTIMATED_STORY_TOKENS,
+            );
+        }
+    } else {
+        // Parallel frames are described without the story so far, then merged in one more request.
+        const isParallel = settings.analysisMode === 'parallel';
+        imageTokens.forEach((tokens, i) => {
+            if (cached[i]) return;
+            const context = isParallel ? 0 : ESTIMATED_STORY_TOKENS + i * ESTIMATED_DESCRIPTION_TOKENS;
+            addRequest(base.analysis + tokens + context, ESTIMATED_DESCRIPTION_TOKENS + ESTIMATED_STORY_TOKENS);
+        });
+        if (isParallel && count > 0) {
+            addRequest(base.storyMerge + count * ESTIMATED_DESCRIPTION_TOKENS, ESTIMATED_STORY_TOKENS);
+        }
+    }
+
+    const storyboard: PassEstimate = count === 0 ? { requests: 0, inputTokens: 0, outputTokens: 0 } : {
+        requests: 1,
+        inputTokens: base.storyboard + ESTIMATED_STORY_TOKENS + count * (ESTIMATED_FRAME_LINE_TOKENS + ESTIMATED_DESCRIPTION_TOKENS),
+        outputTokens: count * ESTIMATED_SLIDE_TOKENS,
+    };
+    const ssml: PassEstimate = {
+        requests: count,
+        inputTokens: count * (base.ssml + ESTIMATED_SLIDE_TOKENS),
+        outputTokens: Math.ceil(count * ESTIMATED_SLIDE_TOKENS * SSML_MARKUP_FACTOR),
+    };
+    return { analysis, storyboard, ssml };
+};
+
+/**
+ * Counts the input tokens of a request with the `countTokens` endpoint. Uses the current key
+ * directly: counting is free and must not change key statuses or the rate limiter's windows.
+ */
+const countTokens = async (model: string, parts: LlmPart[], settings: AppSettings, signal?: AbortSignal): Promise<number> => {
+    const key = getCurrentApiKey();
+    if (!key) throw new Error('Нет доступных API-ключей.');
+    const url = `https://${settings.geminiEndpoint}/models/${model}:countTokens?key=${key}`;
+    const response = await trafficFetch('gemini:countTokens', url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contents: [{ role: 'user', parts: parts.map(toGeminiPart) }] }),
+        signal,
+    });
+    const data = await response.json();
+    if (!response.ok || typeof data.totalTokens !== 'number') {
+        throw new Error(data.error?.message || `HTTP ${response.status}`);
+    }
+    return data.totalTokens;
+};
+
+/**
+ * @param usedToday Today's tokens per masked key, from the usage ledger.
+ */
+const getKeyBudgets = (usedToday: Map<string, number>, now: number): KeyBudget[] => keyPool
+    .filter(key => key.status !== 'invalid' && key.status !== 'config_error' && !(key.status === 'exhausted' && (!key.resetTime || key.resetTime > now)))
+    .map(key => {
+        const maskedKey = `...${key.value.slice(-4)}`;
+        return {
+            maskedKey,
+            label: key.label,
+            remaining: key.dailyTokenBudget ? Math.max(0, key.dailyTokenBudget - (usedToday.get(maskedKey) ?? 0)) : null,
+        };
+    });
+
+/**
+ * Estimates the requests and tokens an analysis run over `images` will take, and compares them with
+ * what the keys' daily token budgets have left today according to the usage ledger.
+ * Frame descriptions, stories and slides are estimated with typical lengths; images are estimated
+ * from their dimensions after preprocessing.
+ * @param precise Measures the prompts and the image set with the `countTokens` endpoint (Gemini only).
+ * Falls back to the local estimate if counting fails.
+ */
+export const estimateAnalysisRun = async (images: UploadedImage[], settings: AppSettings, precise: boolean = false, signal?: AbortSignal): Promise<AnalysisEstimate> => {
+    const usesKeyPool = !settings.llmProvider || settings.llmProvider === 'gemini';
+    const analysisTemplate = settings.analysisMode === 'batched' ? 'analyzeBatch' : 'analyzeFrame';
+    const prompts = {
+        analysis: renderPrompt(analysisTemplate, settings, {}),
+        storyMerge: renderPrompt('storyMerge', settings, {}),
+        storyboard: renderPrompt('storyboard', settings, {}),
+        ssml: renderPrompt('ssml', settings, {}),
+    };
+    let base: PromptBaseTokens = {
+        analysis: estimateTextTokens(prompts.analysis),
+        storyMerge: estimateTextTokens(prompts.storyMerge),
+        storyboard: estimateTextTokens(prompts.storyboard),
+        ssml: estimateTextTokens(prompts.ssml),
+    };
+
+    const sizes = await Promise.all(images.map(getImageSize));
+    const tokensAt = (options: AppSettings['imagePreprocessing']) =>
+        sizes.map(({ width, height }) => {
+            const target = getTargetSize(width, height, options);
+            return estimateImageTokens(target.width, target.height);
+        });
+    let imageTokens = tokensAt(settings.imagePreprocessing);
+
+    const cacheModel = `${settings.llmProvider}:${getTextModel(settings, 'analysis')}`;
+    const promptVersions = getAnalysisPromptVersions(settings);
+    const cached = await Promise.all(images.map(async image =>
+        !!(await getCachedAnalysis(await sha256Hex(image.base64), cacheModel, [promptVersions.frame, promptVersions.batch]))));
+
+    // Scales the local image estimate to the measured one, so the alternatives below stay comparable.
+    let imageTokenRatio = 1;
+    let source: AnalysisEstimate['source'] = 'heuristic';
+    if (precise && usesKeyPool && images.length > 0) {
+        try {
+            const count = (operation: UsageOperation, text: string) =>
+                countTokens(getTextModel(settings, operation), [{ type: 'text', text }], settings, signal);
+            base = {
+                analysis: await count('analysis', prompts.analysis),
+                storyMerge: await count('analysis', prompts.storyMerge),
+                storyboard: await count('storyboard', prompts.storyboard),
+                ssml: await count('ssml', prompts.ssml),
+            };
+            const sent = images.filter((_, i) => !cached[i]);
+            if (sent.length > 0) {
+                const measured = await countTokens(getTextModel(settings, 'analysis'), await Promise.all(sent.map(img => imageToPart(img, settings))), settings, signal);
+                const estimated = imageTokens.filter((_, i) => !cached[i]).reduce((sum, tokens) => sum + tokens, 0);
+                imageTokenRatio = measured / Math.max(1, estimated);
+                imageTokens = imageTokens.map(tokens => Math.round(tokens * imageTokenRatio));
+            }
+            source = 'countTokens';
+        } catch (error) {
+            if (isAbortError(error, signal)) throw new CancelledError();
+            logger.logWarning(`Token counting failed, falling back to the local estimate: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const passes = estimatePasses(imageTokens, cached, base, settings);
+    const { requests, tokens: totalTokens } = sumPasses(Object.values(passes));
+
+    const keyBudgets = usesKeyPool ? getKeyBudgets(await readTodayUsageByKey(), Date.now()) : [];
+    const remainingBudget = !usesKeyPool || keyBudgets.some(budget => budget.remaining === null)
+        ? null
+        : keyBudgets.reduce((sum, budget) => sum + (budget.remaining ?? 0), 0);
+    const fits = (tokens: number) => remainingBudget === null || tokens <= remainingBudget;
+    const exceedsBudget = !fits(totalTokens);
+
+    let maxImagesWithinBudget: number | null = null;
+    if (exceedsBudget) {
+        maxImagesWithinBudget = 0;
+        for (let count = images.length - 1; count > 0; count--) {
+            if (fits(sumPasses(Object.values(estimatePasses(imageTokens.slice(0, count), cached, base, settings))).tokens)) {
+                maxImagesWithinBudget = count;
+                break;
+            }
+        }
+    }
+
+    let reducedResolution: AnalysisEstimate['reducedResolution'] = null;
+    const reducedTokens = tokensAt({ ...settings.imagePreprocessing, enabled: true, maxLongEdge: REDUCED_LONG_EDGE })
+        .map(tokens => Math.round(tokens * imageTokenRatio));
+    const reducedTotal = sumPasses(Object.values(estimatePasses(reducedTokens, cached, base, settings))).tokens;
+    if (reducedTotal < totalTokens) {
+        reducedResolution = { maxLongEdge: REDUCED_LONG_EDGE, totalTokens: reducedTotal };
+    }
+
+    return {
+        imageCount: images.length,
+        cachedCount: cached.filter(Boolean).length,
+        passes,
+        requests,
+        totalTokens,
+        source,
+        usesKeyPool,
+        keyBudgets,
+        remainingBudget,
+        exceedsBudget,
+        maxImagesWithinBudget,
+        reducedResolution,
     };
-    const responseData = await makeGoogleApiCall(settings.geminiModel, settings.geminiEndpoint, payload);
-    return createTextResponse(responseData);
 };
 
 export const getCurrentApiKey = (): string | null => {
@@ -1,4 +1,5 @@
 import { PexelsResponse } from '../types';
+import { trafficFetch } from './trafficRecorder';
 
 let pexelsApiKey: string | null = null;
 
@@ -21,7 +22,7 @@ export const searchPexelsImages = async (query: string): Promise<PexelsResponse>
         throw new Error("Ключ Pexels API не настроен. Пожалуйста, добавьте его в настройках.");
     }
 
-    const response = await fetch(`https://api.pexels.com/v1/search?query=${encodeURIComponent(query)}&per_page=15&orientation=landscape&locale=ru-RU`, {
+    const response = await trafficFetch('pexels', `https://api.pexels.com/v1/search?query=${encodeURIComponent(query)}&per_page=15&orientation=landscape&locale=ru-RU`, {
         headers: {
             Authorization: pexelsApiKey,
         },
@@ -0,0 +1,444 @@
+import { ApiKey, LlmProviderId, Slide, UsageOperation } from '../types';
+import logger from './logger';
+import { recordUsage } from './usageLedger';
+import { trafficFetch, isReplaying } from './trafficRecorder';
+
+// --- Provider-neutral request/response types ---
+export type LlmPart =
+    | { type: 'text'; text: string }
+    | { type: 'image'; mimeType: string; data: string };
+
+/**
+ * Called with the full text accumulated so far every time a new chunk of a streamed response arrives.
+ */
+export type StreamChunkHandler = (accumulatedText: string) => void;
+
+/**
+ * The structured inputs a prompt was rendered from. Real providers only read the prompt text;
+ * the offline fake provider builds its answers from these.
+ */
+export interface LlmRequestContext {
+    topic?: string;
+    storySummary?: string;
+    frameNumber?: number;
+    location?: string;
+    images?: { id: string; description?: string }[];
+    descriptions?: string[];
+    slides?: Slide[];
+    userMessage?: string;
+    speakerCount?: number;
+    script?: string;
+}
+
+export interface LlmRequest {
+    operation: UsageOperation;
+    model: string;
+    parts: LlmPart[];
+    systemInstruction?: string;
+    responseMimeType?: 'application/json';
+    // Schema in Gemini's OpenAPI subset (upper-case types); converted for other providers.
+    responseSchema?: object;
+    disableThinking?: boolean;
+    onChunk?: StreamChunkHandler;
+    signal?: AbortSignal;
+    context?: LlmRequestContext;
+}
+
+export interface LlmResponse {
+    text: string;
+    rawResponse: unknown;
+    truncated?: boolean; // The answer stopped at the output token limit
+}
+
+export interface LlmProvider {
+    id: LlmProviderId;
+    /** Verifies that the provider is reachable and configured before a long operation. */
+    selfCheck: (model: string, signal?: AbortSignal) => Promise<void>;
+    generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+// --- Errors ---
+export class AllKeysFailedError extends Error {
+  failedKeys: ApiKey[];
+  // Set for failures produced by the offline fake provider; they must not overwrite the real key pool.
+  simulated: boolean;
+  constructor(message: string, failedKeys: ApiKey[] = [], simulated: boolean = false) {
+    super(message);
+    this.name = 'AllKeysFailedError';
+    this.failedKeys = failedKeys;
+    this.simulated = simulated;
+  }
+}
+export class ConfigError extends Error {
+  constructor(message: string, public model: string, public endpoint: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export type ContentBlockReason = 'safety' | 'recitation' | 'blocklist' | 'prohibited_content' | 'other';
+
+/**
+ * The model refused the request (`source: 'prompt'`) or stopped its answer (`source: 'response'`)
+ * because of a content filter. Retrying the same input gives the same result.
+ */
+export class ContentBlockedError extends Error {
+  constructor(message: string, public reason: ContentBlockReason, public source: 'prompt' | 'response') {
+    super(message);
+    this.name = 'ContentBlockedError';
+  }
+}
+
+/**
+ * The answer hit the output token limit and continuation requests could not complete it either.
+ */
+export class TruncatedResponseError extends Error {
+  constructor(message: string, public partialText: string) {
+    super(message);
+    this.name = 'TruncatedResponseError';
+  }
+}
+
+// --- Cancellation ---
+/**
+ * Thrown when an operation is cancelled through its AbortSignal.
+ * Cancellation says nothing about the health of the key or provider that served the request.
+ */
+export class CancelledError extends Error {
+    constructor(message: string = 'Операция отменена пользователем.') {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+    !!signal?.aborted || (error instanceof DOMException && error.name === 'AbortError');
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new CancelledError();
+};
+
+/**
+ * setTimeout as a promise that rejects with CancelledError as soon as the signal aborts.
+ */
+export const cancellableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new CancelledError());
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+export const DEFAULT_PROVIDER_BASE_URLS: Record<LlmProviderId, string> = {
+    gemini: '',
+    openai: 'https://api.openai.com/v1',
+    ollama: 'http://localhost:11434',
+    fake: '',
+};
+
+/**
+ * Reads a streamed response body line by line.
+ * @param response A successful fetch response with a streaming body.
+ * @param onLine Called for every complete, non-empty line.
+ */
+export const forEachStreamLine = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+    if (!response.body) throw new Error('Streaming is not supported: response has no body.');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? ''; // Keep the trailing partial line
+        lines.filter(line => line.trim()).forEach(onLine);
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) onLine(buffer);
+};
+
+/**
+ * Converts a Gemini-style schema (`type: 'OBJECT'`) into standard JSON Schema (`type: 'object'`).
+ */
+export const toJsonSchema = (schema: any): any => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) => {
+        if (key === 'type' && typeof value === 'string') return [key, value.toLowerCase()];
+        return [key, toJsonSchema(value)];
+    }));
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+    try {
+        const data = await response.json();
+        return data.error?.message || data.error || response.statusText;
+    } catch (e) {
+        return response.statusText;
+    }
+};
+
+// --- Truncated answers ---
+const MAX_CONTINUATIONS = 2;
+export const CONTINUATION_PROMPT = 'Твой предыдущий ответ оборвался из-за лимита длины. Продолжи его ровно с того символа, на котором он остановился: не повторяй уже написанное, не добавляй пояснений и разметки markdown.';
+
+/**
+ * Completes an answer that stopped at the output token limit. Plain text is used as it is; cut-off JSON
+ * cannot be parsed, so the model is asked to finish it, up to MAX_CONTINUATIONS times.
+ * @param continueFrom Sends one continuation request after the text so far: the original request, that text
+ * as the model's turn and CONTINUATION_PROMPT. The continuation is a fragment, so it must be requested without
+ * a response schema or JSON mode. Its `onChunk` receives only the continuation's text.
+ * @throws {TruncatedResponseError} If the JSON is still incomplete after the last continuation.
+ */
+export const completeTruncatedResponse = async (
+    request: LlmRequest,
+    response: LlmResponse,
+    endpoint: string,
+    continueFrom: (textSoFar: string, onChunk?: StreamChunkHandler) => Promise<LlmResponse>,
+): Promise<LlmResponse> => {
+    if (!response.truncated) return response;
+    if (request.responseMimeType !== 'application/json') {
+        logger.logWarning(`Response for "${request.operation}" stopped at the output token limit; using it as is.`, { model: request.model, endpoint });
+        return response;
+    }
+
+    let text = response.text;
+    for (let attempt = 1; attempt <= MAX_CONTINUATIONS; attempt++) {
+        logger.logWarning(`JSON response for "${request.operation}" was cut off at the output token limit. Requesting continuation ${attempt}/${MAX_CONTINUATIONS}.`, { model: request.model, endpoint });
+        const prefix = text;
+        const onChunk = request.onChunk && ((accumulated: string) => request.onChunk!(prefix + accumulated));
+        const continuation = await continueFrom(text, onChunk);
+        text += continuation.text.replace(/^```(?:json)?\s*/, '');
+        if (!continuation.truncated) return { text, rawResponse: continuation.rawResponse };
+    }
+    logger.logError(`JSON response for "${request.operation}" is still incomplete after ${MAX_CONTINUATIONS} continuations.`, { model: request.model, endpoint });
+    throw new TruncatedResponseError('Ответ модели не поместился в лимит длины даже после нескольких продолжений.', text);
+};
+
+// --- OpenAI-compatible chat completions (OpenAI, vLLM, LM Studio, OpenRouter, ...) ---
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey?: string | null): LlmProvider => {
+    const root = trimTrailingSlash(baseUrl || DEFAULT_PROVIDER_BASE_URLS.openai);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    /**
+     * Sends one chat completion request.
+     * @param withFormat Applies the request's schema or JSON mode; continuations are sent without it.
+     * @throws {ContentBlockedError} If a content filter stopped the answer.
+     */
+    const chat = async (request: LlmRequest, messages: any[], withFormat: boolean, onChunk?: StreamChunkHandler): Promise<LlmResponse> => {
+        const body: any = { model: request.model, messages, stream: !!onChunk };
+        // Streamed responses only end with a usage chunk when asked for one.
+        if (onChunk) body.stream_options = { include_usage: true };
+        if (withFormat && request.responseSchema) {
+            body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } };
+        } else if (withFormat && request.responseMimeType === 'application/json') {
+            body.response_format = { type: 'json_object' };
+        }
+
+        const startTime = Date.now();
+        const url = `${root}/chat/completions`;
+        logger.logInfo(`Calling OpenAI-compatible endpoint ${root}`, { model: request.model, endpoint: url, requestPayload: body });
+        let text = '';
+        let rawResponse: unknown;
+        let usage: any;
+        let finishReason: string | undefined;
+        try {
+            const response = await trafficFetch('openai:chat', url, { method: 'POST', headers, body: JSON.stringify(body), signal: request.signal });
+            if (!response.ok) {
+                const message = await readErrorMessage(response);
+                logger.logError(`API Error from ${root}: ${message}`, { model: request.model, endpoint: url, httpStatus: response.status, apiError: { message } });
+                throw new Error(`Ошибка провайдера (${response.status}): ${message}`);
+            }
+
+            if (onChunk) {
+                const chunks: any[] = [];
+                await forEachStreamLine(response, line => {
+                    if (!line.startsWith('data:')) return;
+                    const data = line.slice(5).trim();
+                    if (data === '[DONE]') return;
+                    const chunk = JSON.parse(data);
+                    chunks.push(chunk);
+                    finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+                    const delta = chunk.choices?.[0]?.delta?.content;
+                    if (delta) {
+                        text += delta;
+                        onChunk(text);
+                    }
+                });
+                rawResponse = chunks;
+                usage = chunks.find(chunk => chunk.usage)?.usage;
+            } else {
+                const data = await response.json();
+                text = data.choices?.[0]?.message?.content ?? '';
+                finishReason = data.choices?.[0]?.finish_reason;
+                rawResponse = data;
+                usage = data.usage;
+            }
+        } catch (error) {
+            if (isAbortError(error, request.signal)) throw new CancelledError();
+            throw error;
+        }
+
+        if (usage && !isReplaying()) {
+            recordUsage({
+                timestamp: Date.now(), maskedKey: 'openai', model: request.model, operation: request.operation,
+                promptTokens: usage.prompt_tokens ?? 0, candidatesTokens: usage.completion_tokens ?? 0, totalTokens: usage.total_tokens ?? 0,
+            });
+        }
+
+        if (finishReason === 'content_filter') {
+            logger.logWarning(`Response stopped by the provider's content filter.`, { model: request.model, endpoint: url, apiResponse: rawResponse });
+            throw new ContentBlockedError('Ответ остановлен фильтром модели (content_filter).', 'safety', 'response');
+        }
+        logger.logSuccess(`API call to ${root} successful (${Date.now() - startTime}ms)`, { model: request.model, endpoint: url, durationMs: Date.now() - startTime });
+        return { text, rawResponse, truncated: finishReason === 'length' };
+    };
+
+    return {
+        id: 'openai',
+        selfCheck: async (model, signal) => {
+            logger.logInfo("Performing self-check before operation...", { model, endpoint: root });
+            try {
+                const response = await trafficFetch('openai:models', `${root}/models`, { headers, signal });
+                if (!response.ok) throw new Error(await readErrorMessage(response));
+                const data = await response.json();
+                if (Array.isArray(data.data) && !data.data.some((m: any) => m.id === model)) {
+                    logger.logWarning(`Model "${model}" is not listed by ${root}. Proceeding with operation.`, { model, endpoint: root });
+                }
+            } catch (error) {
+                if (isAbortError(error, signal)) throw new CancelledError();
+                logger.logWarning(`Self-check for ${root} failed: ${error instanceof Error ? error.message : String(error)}. Proceeding with operation.`, { model, endpoint: root });
+            }
+        },
+        generate: async (request) => {
+            const messages: any[] = [];
+            if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+            messages.push({
+                role: 'user',
+                content: request.parts.map(part => part.type === 'text'
+                    ? { type: 'text', text: part.text }
+                    : { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }),
+            });
+
+            const response = await chat(request, messages, true, request.onChunk);
+            return completeTruncatedResponse(request, response, root, (textSoFar, onChunk) => chat(request, [
+                ...messages,
+                { role: 'assistant', content: textSoFar },
+                { role: 'user', content: CONTINUATION_PROMPT },
+            ], false, onChunk));
+        },
+    };
+};
+
+// --- Local Ollama server ---
+export const createOllamaProvider = (baseUrl: string): LlmProvider => {
+    const root = trimTrailingSlash(baseUrl || DEFAULT_PROVIDER_BASE_URLS.ollama);
+
+    /**
+     * Sends one chat request.
+     * @param withFormat Applies the request's schema or JSON mode; continuations are sent without it.
+     */
+    const chat = async (request: LlmRequest, messages: any[], withFormat: boolean, onChunk?: StreamChunkHandler): Promise<LlmResponse> => {
+        const body: any = { model: request.model, messages, stream: !!onChunk };
+        if (withFormat && request.responseSchema) body.format = toJsonSchema(request.responseSchema);
+        else if (withFormat && request.responseMimeType === 'application/json') body.format = 'json';
+
+        const startTime = Date.now();
+        const url = `${root}/api/chat`;
+        logger.logInfo(`Calling Ollama at ${root}`, { model: request.model, endpoint: url, requestPayload: { ...body, messages: '[omitted]' } });
+        let text = '';
+        let rawResponse: unknown;
+        try {
+            const response = await trafficFetch('ollama:chat', url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal: request.signal });
+            if (!response.ok) {
+                const message = await readErrorMessage(response);
+                logger.logError(`Ollama error: ${message}`, { model: request.model, endpoint: url, httpStatus: response.status, apiError: { message } });
+                throw new Error(`Ошибка Ollama (${response.status}): ${message}`);
+            }
+
+            if (onChunk) {
+                let lastChunk: any = null;
+                let doneChunk: any = null;
+                await forEachStreamLine(response, line => {
+                    lastChunk = JSON.parse(line);
+                    if (lastChunk.done) doneChunk = lastChunk;
+                    const delta = lastChunk.message?.content;
+                    if (delta) {
+                        text += delta;
+                        onChunk(text);
+                    }
+                });
+                rawResponse = doneChunk ?? lastChunk;
+            } else {
+                const data = await response.json();
+                text = data.message?.content ?? '';
+                rawResponse = data;
+            }
+        } catch (error) {
+            if (isAbortError(error, request.signal)) throw new CancelledError();
+            throw error;
+        }
+
+        // The `done` message (the only one without streaming) carries the token counts and why generation stopped.
+        const stats = rawResponse as { prompt_eval_count?: number; eval_count?: number; done_reason?: string } | null;
+        if (!isReplaying() && (stats?.prompt_eval_count !== undefined || stats?.eval_count !== undefined)) {
+            const promptTokens = stats.prompt_eval_count ?? 0;
+            const candidatesTokens = stats.eval_count ?? 0;
+            recordUsage({
+                timestamp: Date.now(), maskedKey: 'ollama', model: request.model, operation: request.operation,
+                promptTokens, candidatesTokens, totalTokens: promptTokens + candidatesTokens,
+            });
+        }
+
+        logger.logSuccess(`Ollama call successful (${Date.now() - startTime}ms)`, { model: request.model, endpoint: url, durationMs: Date.now() - startTime });
+        return { text, rawResponse, truncated: stats?.done_reason === 'length' };
+    };
+
+    return {
+        id: 'ollama',
+        selfCheck: async (model, signal) => {
+            logger.logInfo("Performing self-check before operation...", { model, endpoint: root });
+            try {
+                const response = await trafficFetch('ollama:tags', `${root}/api/tags`, { signal });
+                if (!response.ok) throw new Error(response.statusText);
+                const data = await response.json();
+                const isInstalled = data.models?.some((m: any) => m.name === model || m.name === `${model}:latest`);
+                if (!isInstalled) {
+                    logger.logWarning(`Model "${model}" is not installed on ${root}. Run "ollama pull ${model}".`, { model, endpoint: root });
+                }
+            } catch (error) {
+                if (isAbortError(error, signal)) throw new CancelledError();
+                throw new Error(`Сервер Ollama (${root}) недоступен: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        },
+        generate: async (request) => {
+            const messages: any[] = [];
+            if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+            const images = request.parts.filter(p => p.type === 'image').map(p => (p as { data: string }).data);
+            messages.push({
+                role: 'user',
+                content: request.parts.filter(p => p.type === 'text').map(p => (p as { text: string }).text).join('\n\n'),
+                ...(images.length > 0 ? { images } : {}),
+            });
+
+            const response = await chat(request, messages, true, request.onChunk);
+            return completeTruncatedResponse(request, response, root, (textSoFar, onChunk) => chat(request, [
+                ...messages,
+                { role: 'assistant', content: textSoFar },
+                { role: 'user', content: CONTINUATION_PROMPT },
+            ], false, onChunk));
+        },
+    };
+};
@@ -1,3 +1,5 @@
+import { trafficFetch } from './trafficRecorder';
+
 /**
  * Finds detailed location information, including points of interest, from geographic coordinates using the OpenStreetMap Nominatim API.
  * @param lat Latitude
@@ -6,7 +8,7 @@
  */
 export const findLocationDetails = async (lat: number, lon: number): Promise<string | null> => {
   try {
-    const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${lat}&lon=${lon}&accept-language=ru`, {
+    const response = await trafficFetch('location', `https://nominatim.openstreetmap.org/reverse?format=jsonv2&lat=${lat}&lon=${lon}&accept-language=ru`, {
       headers: {
         'User-Agent': 'PresentationMasterAI/1.0 (https://studio.co/)'
       }
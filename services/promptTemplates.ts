@@ -0,0 +1,265 @@
+import { AppSettings, PromptTemplateId } from '../types';
+
+export interface PromptVariable {
+    name: string;
+    description: string;
+    sample: string; // Used for the preview in the settings
+}
+
+export interface PromptTemplateDefinition {
+    id: PromptTemplateId;
+    name: string;
+    description: string;
+    variables: PromptVariable[];
+    template: string;
+}
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+    initialPlan: {
+        id: 'initialPlan',
+        name: 'Первоначальный план',
+        description: 'Черновой план презентации по теме пользователя.',
+        variables: [
+            { name: 'topic', description: 'Тема презентации', sample: 'Путешествие по Исландии' },
+        ],
+        template: `
+Ты - ИИ-режиссер, помогающий пользователю создать структуру для впечатляющей и красивой презентации.
+Тема, заданная пользователем: "{{topic}}"
+Твоя задача - проанализировать тему и создать первоначальный план (сценарий) презентации. План должен быть логичным, увлекательным и хорошо структурированным.
+ИНСТРУКЦИИ:
+1. Разбей презентацию на 3-5 логических частей (например: ## Вступление, ## Основная часть, ## Кульминация, ## Заключение). Используй заголовки Markdown (##).
+2. Для каждой части предложи краткое, но емкое описание того, о чем в ней пойдет речь.
+3. Для каждой части опиши, какой тип визуального ряда (фотографий) был бы наиболее уместен. Например: "- Широкоугольные пейзажи", "- Портреты с эмоциями", "- Детальные снимки архитектуры". Используй списки Markdown (-).
+4. Ответ должен быть четко структурирован, вдохновляющим и легко читаемым.
+5. Заверши свой ответ обобщающим абзацем, приглашающим пользователя загрузить фотографии, которые соответствуют этому плану.
+6. Твой ответ должен быть исключительно на русском языке.`,
+    },
+    analyzeFrame: {
+        id: 'analyzeFrame',
+        name: 'Анализ кадра',
+        description: 'Описание очередной фотографии и обновление общей истории.',
+        variables: [
+            { name: 'storySummary', description: 'История, сложившаяся по предыдущим кадрам', sample: 'Мы начали путешествие в Рейкьявике.' },
+            { name: 'previousContext', description: 'Описания предыдущих кадров', sample: 'Контекст предыдущих кадров:\nКадр 1: Город на рассвете.' },
+            { name: 'frameNumber', description: 'Номер текущего кадра', sample: '2' },
+            { name: 'locationInfo', description: 'Место съемки', sample: 'Место съемки: Рейкьявик, Исландия.' },
+            { name: 'exifInfo', description: 'Метаданные камеры', sample: '(Метаданные: Снято: 01.07.2024, 10:00:00)' },
+        ],
+        template: `
+Ты - ИИ-режиссер, твоя задача - проанализировать серию фотографий и создать из них связную историю.
+Сейчас ты работаешь над одним кадром в контексте всей истории.
+    
+КРАТКОЕ ОПИСАНИЕ УЖЕ СЛОЖИВШЕЙСЯ ИСТОРИИ:
+"{{storySummary}}"
+    
+{{previousContext}}
+    
+ДАННЫЕ НОВОГО КАДРА (КАДР №{{frameNumber}}):
+{{locationInfo}} {{exifInfo}}
+Проанализируй приложенное изображение.
+    
+ТВОЯ ЗАДАЧА:
+Верни JSON с двумя полями:
+1.  "imageDescription": Кратко, в ОДНОМ предложении, опиши, что происходит на этом кадре и как он связан с предыдущими. Это описание будет показано пользователю.
+2.  "updatedStory": Основываясь на всей имеющейся информации (старая история + новый кадр), напиши ОБНОВЛЕННУЮ и БОЛЕЕ ДЕТАЛИЗИРОВАННУЮ общую сюжетную линию для всей презентации. Этот текст должен быть связным рассказом на 3-5 предложений.
+`,
+    },
+    analyzeBatch: {
+        id: 'analyzeBatch',
+        name: 'Анализ пакета кадров',
+        description: 'Описание нескольких фотографий за один запрос (пакетный режим анализа).',
+        variables: [
+            { name: 'storySummary', description: 'История, сложившаяся по предыдущим кадрам', sample: 'Мы начали путешествие в Рейкьявике.' },
+            { name: 'previousContext', description: 'Описания предыдущих кадров', sample: 'Контекст предыдущих кадров:\nКадр 1: Город на рассвете.' },
+            { name: 'frameCount', description: 'Количество кадров в пакете', sample: '3' },
+            { name: 'frameList', description: 'ID, место съемки и метаданные каждого кадра пакета', sample: 'Кадр 2, ID: img-2. Место съемки: Рейкьявик, Исландия.\nКадр 3, ID: img-3.' },
+        ],
+        template: `
+Ты - ИИ-режиссер, твоя задача - проанализировать серию фотографий и создать из них связную историю.
+Сейчас ты работаешь над пакетом из {{frameCount}} кадров в контексте всей истории.
+
+КРАТКОЕ ОПИСАНИЕ УЖЕ СЛОЖИВШЕЙСЯ ИСТОРИИ:
+"{{storySummary}}"
+
+{{previousContext}}
+
+КАДРЫ ПАКЕТА (изображения приложены в том же порядке, перед каждым указан его ID):
+{{frameList}}
+
+ТВОЯ ЗАДАЧА:
+Верни JSON с двумя полями:
+1.  "frames": массив, в котором для КАЖДОГО кадра пакета есть объект с полями "imageId" (ID кадра из списка) и "imageDescription" (кратко, в ОДНОМ предложении, что происходит на кадре и как он связан с историей).
+2.  "updatedStory": ОБНОВЛЕННАЯ и БОЛЕЕ ДЕТАЛИЗИРОВАННАЯ общая сюжетная линия для всей презентации с учетом новых кадров. Связный рассказ на 3-5 предложений.
+`,
+    },
+    storyMerge: {
+        id: 'storyMerge',
+        name: 'Сборка истории',
+        description: 'Связная история из независимо описанных кадров (параллельный режим анализа).',
+        variables: [
+            { name: 'frameCount', description: 'Количество кадров', sample: '2' },
+            { name: 'frameDescriptions', description: 'Пронумерованные описания кадров в порядке загрузки', sample: 'Кадр 1: Город на рассвете.\nКадр 2: Дорога к ледникам.' },
+        ],
+        template: `Ты - ИИ-режиссер. Ниже описания {{frameCount}} фотографий в порядке, в котором их загрузил пользователь. Каждая описана независимо от остальных.
+
+{{frameDescriptions}}
+
+Напиши на их основе единую связную сюжетную линию для презентации: 4-7 предложений, которые объединяют кадры в одну историю с началом, развитием и финалом.
+Верни только текст истории на русском языке, без заголовков и списков.`,
+    },
+    storyboard: {
+        id: 'storyboard',
+        name: 'Сценарий',
+        description: 'Итоговый сценарий из финальной истории и проанализированных кадров.',
+        variables: [
+            { name: 'finalStory', description: 'Финальная версия истории', sample: 'Мы прошли от города до ледников...' },
+            { name: 'imageContext', description: 'Список доступных изображений с описаниями', sample: '- ID изображения: img-1, Описание: Город на рассвете' },
+            { name: 'maxSpeaker', description: 'Максимальный номер диктора', sample: '1' },
+        ],
+        template: `Ты — ИИ-режиссер. Твоя задача — создать детальный сценарий для видео-презентации.
+    
+ФИНАЛЬНАЯ ВЕРСИЯ ИСТОРИИ, одобренная пользователем:
+"{{finalStory}}"
+    
+ДОСТУПНЫЕ ИЗОБРАЖЕНИЯ (кадры):
+{{imageContext}}
+    
+ИНСТРУКЦИИ:
+1.  Создай массив JSON объектов, где каждый объект — это один слайд.
+2.  Для каждого слайда подбери наиболее подходящее изображение из списка по его ID. **Не придумывай новые ID!**
+3.  Если для какого-то логического шага истории нет подходящего изображения, создай слайд с \`"imageId": null\` и \`"needsImage": true\`.
+4.  Включи в каждый объект слайда следующие поля:
+    *   \`title\` (string): Короткий, емкий заголовок (2-4 слова).
+    *   \`script\` (string): Текст для диктора (2-3 предложения).
+    *   \`imageId\` (string | null): ID изображения из списка выше или null.
+    *   \`speaker\` (number): Номер диктора (от 0 до {{maxSpeaker}}, чередуй их для диалога).
+    *   \`textOverlay\` (string): (Опционально) Короткая фраза для отображения поверх видео.
+    *   \`podcastScript\` (string): (Опционально) Альтернативный, более разговорный текст для "режима подкаста".
+    *   \`needsImage\` (boolean): \`true\`, если нужно найти или сгенерировать изображение.
+    *   \`suggestions\` (object, опционально): Если \`needsImage\` is \`true\`, предложи варианты:
+        *   \`search\` (string): Поисковый запрос для Pexels.
+        *   \`generate\` (string): Промпт для генерации изображения.
+    
+5.  Твой ответ должен быть ТОЛЬКО валидным JSON-массивом. Без лишних слов и markdown.
+`,
+    },
+    chatEdit: {
+        id: 'chatEdit',
+        name: 'Правки в чате',
+        description: 'Редактирование сценария по сообщению пользователя.',
+        variables: [
+            { name: 'currentStoryboard', description: 'Текущий сценарий в JSON', sample: '[{"title": "Начало", "script": "..."}]' },
+            { name: 'history', description: 'История переписки', sample: 'Пользователь: Сделай вступление короче.' },
+            { name: 'imageIds', description: 'Допустимые ID изображений', sample: 'img-1, img-2' },
+            { name: 'maxSpeaker', description: 'Максимальный номер диктора', sample: '1' },
+        ],
+        template: `Ты — ИИ-режиссер, и ты помогаешь пользователю редактировать сценарий презентации.
+    
+ТЕКУЩИЙ СЦЕНАРИЙ (в формате JSON, у каждого слайда указан index):
+{{currentStoryboard}}
+
+ИСТОРИЯ ПЕРЕПИСКИ:
+{{history}}
+
+ЗАДАЧА:
+Проанализируй последнее сообщение пользователя и опиши нужные изменения как список операций.
+Не переписывай сценарий целиком и не трогай слайды, о которых пользователь не просил.
+
+ДОСТУПНЫЕ ОПЕРАЦИИ:
+*   \`{"type": "insertSlide", "index": N, "slide": {...}}\` — вставить новый слайд на позицию N (поля как у слайдов сценария).
+*   \`{"type": "deleteSlide", "index": N}\` — удалить слайд.
+*   \`{"type": "moveSlide", "index": N, "toIndex": M}\` — переместить слайд на позицию M.
+*   \`{"type": "updateField", "index": N, "field": "title" | "script" | "textOverlay" | "podcastScript" | "speaker", "value": "..."}\` — изменить одно поле.
+*   \`{"type": "swapImage", "index": N, "imageId": "..."}\` — поставить изображение на слайд (null - убрать изображение).
+
+Операции применяются по порядку, и каждый index относится к сценарию после предыдущих операций.
+Используй только ID изображений: {{imageIds}}. Номер диктора — от 0 до {{maxSpeaker}}.
+
+ФОРМАТ ОТВЕТА (только JSON-объект, без markdown):
+*   \`reply\` (string): 1-3 предложения для пользователя — что ты изменил и почему. Если просьба неясна, задай уточняющий вопрос и верни пустой список операций.
+*   \`suggestions\` (array of strings): 2-3 коротких варианта следующей просьбы, от лица пользователя.
+*   \`operations\` (array): список операций.`,
+    },
+    music: {
+        id: 'music',
+        name: 'Подбор музыки',
+        description: 'Настроения для фоновой музыки.',
+        variables: [
+            { name: 'concept', description: 'Концепция презентации', sample: 'Путешествие по Исландии' },
+            { name: 'storySummary', description: 'Тексты всех слайдов', sample: 'Мы начали путешествие в Рейкьявике...' },
+        ],
+        template: `Проанализируй концепцию ("{{concept}}") и краткое содержание ("{{storySummary}}") презентации.
+Предложи 3-5 настроений для фоновой музыки в виде JSON-массива строк. Например: ["upbeat", "cinematic", "reflective"].
+Ответ должен быть только JSON-массивом.`,
+    },
+    ssml: {
+        id: 'ssml',
+        name: 'SSML',
+        description: 'Разметка текста диктора для синтеза речи.',
+        variables: [
+            { name: 'script', description: 'Текст для озвучивания', sample: 'Добро пожаловать в Исландию!' },
+        ],
+        template: `Преобразуй следующий текст в формат SSML (Speech Synthesis Markup Language) для более естественного звучания. Используй теги <break time="...s"/> для пауз и <emphasis level="..."> для интонаций. Не оборачивай ответ в \`\`\`xml. Верни только чистый SSML код.
+Исходный текст: "{{script}}"`,
+    },
+    imageEdit: {
+        id: 'imageEdit',
+        name: 'Правка фото',
+        description: 'Инструкция для модели редактирования изображений.',
+        variables: [
+            { name: 'instruction', description: 'Что изменить на фото', sample: 'Убери человека слева' },
+        ],
+        template: `Отредактируй эту фотографию: {{instruction}}.
+Все, о чем не сказано, оставь без изменений: композицию, освещение, цвета, людей и объекты. Результат должен выглядеть как настоящая фотография. Верни только отредактированное изображение.`,
+    },
+    video: {
+        id: 'video',
+        name: 'Видео',
+        description: 'Промпт для генерации концептуального видео.',
+        variables: [
+            { name: 'style', description: 'Стиль видео', sample: 'кинематографичный' },
+            { name: 'combinedScript', description: 'Тексты всех слайдов', sample: 'Мы начали путешествие в Рейкьявике...' },
+        ],
+        template: `Создай концептуальное видео в стиле "{{style}}" на основе следующего сценария: {{combinedScript}}. Видео должно отражать общее настроение и ключевые моменты истории.`,
+    },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Substitutes `{{name}}` placeholders. Unknown placeholders are left untouched so typos stay visible in the preview.
+ */
+export const renderTemplate = (template: string, variables: Record<string, string | number>): string =>
+    template.replace(VARIABLE_PATTERN, (match, name: string) => name in variables ? String(variables[name]) : match);
+
+/**
+ * Resolves the template text in priority order: active project override, global override, built-in default.
+ */
+export const resolveTemplate = (id: PromptTemplateId, settings: AppSettings): string => {
+    const { global, projects } = settings.promptOverrides;
+    const projectOverride = settings.activeProject ? projects[settings.activeProject]?.[id] : undefined;
+    return projectOverride ?? global[id] ?? PROMPT_TEMPLATES[id].template;
+};
+
+/**
+ * Short FNV-1a hash of the effective template. Changes whenever the template is edited,
+ * so cached results produced by an older prompt can be told apart.
+ */
+export const getTemplateVersion = (id: PromptTemplateId, settings: AppSettings): string => {
+    const template = resolveTemplate(id, settings);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < template.length; i++) {
+        hash ^= template.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const renderPrompt = (id: PromptTemplateId, settings: AppSettings, variables: Record<string, string | number>): string =>
+    renderTemplate(resolveTemplate(id, settings), variables);
+
+/**
+ * Renders a template with the sample values of its variables, for previews.
+ */
+export const renderTemplatePreview = (id: PromptTemplateId, template: string): string =>
+    renderTemplate(template, Object.fromEntries(PROMPT_TEMPLATES[id].variables.map(v => [v.name, v.sample])));
@@ -0,0 +1,190 @@
+import { AppSettings, EncryptedPayload } from '../types';
+import logger from './logger';
+
+const STORAGE_KEY = 'secretVault';
+const PBKDF2_ITERATIONS = 310000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+const CHECK_VALUE = 'presentation-master-vault';
+
+export class VaultError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VaultError';
+    }
+}
+
+// The derived key lives only in memory: every page load has to unlock the vault again.
+let session: { key: CryptoKey; salt: string; iterations: number } | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+const encryptWith = async (key: CryptoKey, salt: string, iterations: number, text: string): Promise<EncryptedPayload> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { salt, iterations, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptWith = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return new TextDecoder().decode(data);
+};
+
+// A known value encrypted with the vault key; lets us verify a passphrase without any other secret.
+const loadCheck = (): EncryptedPayload | null => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    } catch (e) {
+        console.error("Failed to parse the stored vault:", e);
+        return null;
+    }
+};
+
+const storeCheck = async (key: CryptoKey, salt: string, iterations: number) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(await encryptWith(key, salt, iterations, CHECK_VALUE)));
+};
+
+export const isVaultEnabled = (): boolean => loadCheck() !== null;
+
+export const isVaultUnlocked = (): boolean => session !== null;
+
+/**
+ * Creates a vault protected by the passphrase and unlocks it. Secrets are encrypted from the next save on.
+ */
+export const createVault = async (passphrase: string): Promise<void> => {
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    await storeCheck(key, salt, PBKDF2_ITERATIONS);
+    session = { key, salt, iterations: PBKDF2_ITERATIONS };
+    logger.logSuccess('Secret vault created. API keys and tokens are now encrypted at rest.');
+};
+
+/**
+ * Unlocks the vault for the rest of the page session.
+ * @param payload Data to verify the passphrase against when this browser has no vault yet,
+ * e.g. settings synced from another device. The local vault then adopts its salt.
+ * @throws {VaultError} If the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string, payload?: EncryptedPayload): Promise<void> => {
+    const stored = loadCheck();
+    const target = stored ?? payload;
+    if (!target) throw new VaultError('Хранилище ключей не настроено.');
+
+    const key = await deriveKey(passphrase, target.salt, target.iterations);
+    try {
+        await decryptWith(key, target);
+    } catch {
+        throw new VaultError('Неверная парольная фраза.');
+    }
+    session = { key, salt: target.salt, iterations: target.iterations };
+    if (!stored) await storeCheck(key, target.salt, target.iterations);
+    logger.logInfo('Secret vault unlocked.');
+};
+
+/**
+ * Forgets the derived key. Nothing can be encrypted or decrypted until the vault is unlocked again.
+ */
+export const lockVault = () => {
+    session = null;
+    logger.logInfo('Secret vault locked.');
+};
+
+/**
+ * Deletes the vault. Callers must store their secrets again, now in plain text, while they still have them.
+ */
+export const removeVault = () => {
+    localStorage.removeItem(STORAGE_KEY);
+    session = null;
+    logger.logWarning('Secret vault removed. API keys and tokens are stored in plain text again.');
+};
+
+const requireSession = () => {
+    if (!session) throw new VaultError('Хранилище ключей заблокировано.');
+    return session;
+};
+
+const encryptText = (text: string): Promise<EncryptedPayload> => {
+    const { key, salt, iterations } = requireSession();
+    return encryptWith(key, salt, iterations, text);
+};
+
+const decryptText = async (payload: EncryptedPayload): Promise<string> => {
+    const { key, salt } = requireSession();
+    if (payload.salt !== salt) {
+        throw new VaultError('Данные зашифрованы другой парольной фразой.');
+    }
+    try {
+        return await decryptWith(key, payload);
+    } catch {
+        throw new VaultError('Не удалось расшифровать данные: они повреждены.');
+    }
+};
+
+// --- Settings & Stored Secrets ---
+type SettingsSecrets = Pick<AppSettings, 'apiKeys' | 'pexelsApiKey' | 'llmApiKey' | 'githubPat'>;
+
+/**
+ * Prepares settings for localStorage or the Gist: while the vault is enabled, every secret is moved
+ * into `sealedSecrets`. Without a vault the settings are returned as they are.
+ * @throws {VaultError} If the vault is enabled but locked.
+ */
+export const sealSettings = async (settings: AppSettings): Promise<AppSettings> => {
+    const { sealedSecrets: _, ...plain } = settings;
+    if (!isVaultEnabled()) return plain;
+    const secrets: SettingsSecrets = {
+        apiKeys: settings.apiKeys,
+        pexelsApiKey: settings.pexelsApiKey,
+        llmApiKey: settings.llmApiKey ?? null,
+        githubPat: settings.githubPat ?? null,
+    };
+    return {
+        ...plain,
+        apiKeys: [],
+        pexelsApiKey: null,
+        llmApiKey: null,
+        githubPat: null,
+        sealedSecrets: await encryptText(JSON.stringify(secrets)),
+    };
+};
+
+/**
+ * Reverses `sealSettings`. Settings without `sealedSecrets` are returned as they are.
+ * @throws {VaultError} If the vault is locked or was created with another passphrase.
+ */
+export const openSettings = async (settings: AppSettings): Promise<AppSettings> => {
+    const { sealedSecrets, ...plain } = settings;
+    if (!sealedSecrets) return plain;
+    const secrets: SettingsSecrets = JSON.parse(await decryptText(sealedSecrets));
+    return { ...plain, ...secrets };
+};
+
+/**
+ * Reads a single secret from localStorage. Values written before the vault existed are read as plain text.
+ */
+export const readSecret = async (storageKey: string): Promise<string | null> => {
+    const stored = localStorage.getItem(storageKey);
+    if (stored === null || !stored.startsWith('{')) return stored;
+    return decryptText(JSON.parse(stored));
+};
+
+/**
+ * Writes a single secret to localStorage, encrypted while the vault is enabled.
+ */
+export const writeSecret = async (storageKey: string, value: string): Promise<void> => {
+    localStorage.setItem(storageKey, isVaultEnabled() ? JSON.stringify(await encryptText(value)) : value);
+};
@@ -0,0 +1,170 @@
+import { TrafficEntry, TrafficFixture, TrafficMode } from '../types';
+import { sha256Hex } from '../utils/hash';
+import { TRAFFIC_FIXTURE_STORE, withStore } from './db';
+import logger from './logger';
+
+const MODE_STORAGE_KEY = 'trafficMode';
+const FIXTURE_KEY = 'active';
+// Query parameters that carry credentials and must never end up in a fixture or a request hash.
+const SECRET_QUERY_PARAMS = ['key'];
+
+let mode: TrafficMode = (localStorage.getItem(MODE_STORAGE_KEY) as TrafficMode | null) || 'off';
+let entries: TrafficEntry[] = [];
+// Replay position per operation + hash, so repeated identical requests get their responses in recorded order.
+const replayCursors = new Map<string, number>();
+
+export class ReplayMissError extends Error {
+  constructor(public operation: string, public requestHash: string) {
+    super(`В загруженной записи нет ответа для операции "${operation}" (хэш запроса ${requestHash.slice(0, 12)}). Запишите сценарий заново или отключите режим воспроизведения.`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const keys = Object.keys(record).sort();
+        return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+const stripSecrets = (url: string): string => {
+    const parsed = new URL(url);
+    SECRET_QUERY_PARAMS.forEach(param => parsed.searchParams.delete(param));
+    parsed.searchParams.sort();
+    return parsed.toString();
+};
+
+/**
+ * Hashes the parts of a request that determine its response: method, URL without credentials and body.
+ * Headers are ignored since they only carry auth and content type.
+ */
+const hashRequest = (method: string, url: string, body: RequestInit['body']): Promise<string> => {
+    let normalizedBody = '';
+    if (typeof body === 'string') {
+        try {
+            normalizedBody = stableStringify(JSON.parse(body));
+        } catch {
+            normalizedBody = body;
+        }
+    }
+    return sha256Hex(`${method} ${stripSecrets(url)}\n${normalizedBody}`);
+};
+
+const saveFixture = async (): Promise<void> => {
+    try {
+        const fixture: TrafficFixture = { version: 1, createdAt: Date.now(), entries };
+        await withStore(TRAFFIC_FIXTURE_STORE, 'readwrite', store => store.put(fixture, FIXTURE_KEY));
+    } catch (e) {
+        console.error("Failed to persist traffic fixture:", e);
+    }
+};
+
+/**
+ * Restores the last recorded or loaded fixture from IndexedDB. Called once on startup.
+ */
+export const loadStoredFixture = async (): Promise<void> => {
+    try {
+        const fixture = await withStore<TrafficFixture | undefined>(TRAFFIC_FIXTURE_STORE, 'readonly', store => store.get(FIXTURE_KEY));
+        entries = fixture?.entries ?? [];
+        replayCursors.clear();
+    } catch (e) {
+        console.error("Failed to load traffic fixture:", e);
+    }
+};
+
+export const getTrafficMode = (): TrafficMode => mode;
+
+export const isReplaying = (): boolean => mode === 'replay';
+
+export const setTrafficMode = (newMode: TrafficMode) => {
+    mode = newMode;
+    replayCursors.clear();
+    localStorage.setItem(MODE_STORAGE_KEY, newMode);
+    logger.logInfo(`Traffic mode set to "${newMode}" (${entries.length} recorded responses).`);
+};
+
+export const getTrafficEntries = (): readonly TrafficEntry[] => entries;
+
+export const clearTrafficEntries = async (): Promise<void> => {
+    entries = [];
+    replayCursors.clear();
+    await saveFixture();
+    logger.logInfo('Traffic recording cleared.');
+};
+
+/**
+ * Serializes the current recording as a fixture file.
+ */
+export const exportFixture = (): string => {
+    const fixture: TrafficFixture = { version: 1, createdAt: Date.now(), entries };
+    return JSON.stringify(fixture, null, 2);
+};
+
+/**
+ * Replaces the current recording with a fixture file produced by `exportFixture`.
+ * @throws {Error} If the file is not a fixture.
+ */
+export const importFixture = async (json: string): Promise<number> => {
+    const fixture = JSON.parse(json) as TrafficFixture;
+    if (fixture?.version !== 1 || !Array.isArray(fixture.entries)) {
+        throw new Error('Файл не является записью сетевого трафика.');
+    }
+    entries = fixture.entries;
+    replayCursors.clear();
+    await saveFixture();
+    logger.logInfo(`Loaded traffic fixture with ${entries.length} recorded responses.`);
+    return entries.length;
+};
+
+const replay = (operation: string, requestHash: string, signal?: AbortSignal | null): Response => {
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+
+    const matches = entries.filter(e => e.operation === operation && e.requestHash === requestHash);
+    if (matches.length === 0) {
+        logger.logError(`Replay miss for "${operation}"`, { apiError: { message: `No recorded response for hash ${requestHash}`, status: 'REPLAY_MISS' } });
+        throw new ReplayMissError(operation, requestHash);
+    }
+    const cursorKey = `${operation}:${requestHash}`;
+    const index = replayCursors.get(cursorKey) ?? 0;
+    // Once the recorded responses run out, the last one keeps being served.
+    const entry = matches[Math.min(index, matches.length - 1)];
+    replayCursors.set(cursorKey, index + 1);
+
+    const headers: Record<string, string> = {};
+    if (entry.contentType) headers['Content-Type'] = entry.contentType;
+    return new Response(entry.body, { status: entry.status, headers });
+};
+
+/**
+ * Drop-in replacement for `fetch` that records or replays traffic depending on the current mode.
+ * @param operation Stable name of the call site, part of the replay key.
+ * @param url The request URL. Credentials in the query string are stripped before recording.
+ * @param init Standard fetch options.
+ */
+export const trafficFetch = async (operation: string, url: string, init: RequestInit = {}): Promise<Response> => {
+    if (mode === 'off') return fetch(url, init);
+
+    const method = init.method || 'GET';
+    const requestHash = await hashRequest(method, url, init.body);
+    if (mode === 'replay') return replay(operation, requestHash, init.signal);
+
+    const response = await fetch(url, init);
+    // Clone so the caller can still consume the original body, including streams.
+    response.clone().text().then(body => {
+        entries.push({
+            operation,
+            requestHash,
+            url: stripSecrets(url),
+            method,
+            status: response.status,
+            contentType: response.headers.get('Content-Type'),
+            body,
+            recordedAt: Date.now(),
+        });
+        saveFixture();
+    }).catch(e => console.error(`Failed to record response for "${operation}":`, e));
+    return response;
+};
@@ -0,0 +1,97 @@
+import { UsageEntry, ModelPrice } from '../types';
+import { USAGE_STORE, withStore } from './db';
+
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    candidatesTokens: number;
+    totalTokens: number;
+    cost: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+    day: string; // YYYY-MM-DD, local time
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, candidatesTokens: 0, totalTokens: 0, cost: 0 });
+
+/**
+ * Persists a single usage record. Failures are logged to the console only:
+ * accounting must never break the operation that produced the tokens.
+ */
+export const recordUsage = async (entry: Omit<UsageEntry, 'id'>): Promise<void> => {
+    try {
+        await withStore(USAGE_STORE, 'readwrite', store => store.add(entry));
+    } catch (e) {
+        console.error("Failed to record token usage:", e);
+    }
+};
+
+/**
+ * Returns all usage records, optionally only those newer than `since`.
+ */
+export const getUsageEntries = async (since?: number): Promise<UsageEntry[]> => {
+    const range = since ? IDBKeyRange.lowerBound(since) : undefined;
+    return withStore(USAGE_STORE, 'readonly', store => store.index('timestamp').getAll(range));
+};
+
+export const clearUsage = (): Promise<undefined> => withStore(USAGE_STORE, 'readwrite', store => store.clear());
+
+export const toDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Estimates the cost of a record from a per-model price table (USD per 1M tokens).
+ * Models without an entry are treated as free.
+ */
+export const estimateEntryCost = (entry: UsageEntry, prices: Record<string, ModelPrice>): number => {
+    const price = prices[entry.model];
+    if (!price) return 0;
+    return (entry.promptTokens * price.inputPerMillion + entry.candidatesTokens * price.outputPerMillion) / 1_000_000;
+};
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry, prices: Record<string, ModelPrice>) => {
+    totals.requests += 1;
+    totals.promptTokens += entry.promptTokens;
+    totals.candidatesTokens += entry.candidatesTokens;
+    totals.totalTokens += entry.totalTokens;
+    totals.cost += estimateEntryCost(entry, prices);
+};
+
+/**
+ * Aggregates records per day for the last `days` days, including days without usage.
+ */
+export const summarizeDailyUsage = (entries: UsageEntry[], prices: Record<string, ModelPrice>, days: number = 14): DailyUsage[] => {
+    const byDay = new Map<string, DailyUsage>();
+    for (let i = days - 1; i >= 0; i--) {
+        const day = toDayKey(Date.now() - i * 24 * 60 * 60 * 1000);
+        byDay.set(day, { day, ...emptyTotals() });
+    }
+    entries.forEach(entry => {
+        const bucket = byDay.get(toDayKey(entry.timestamp));
+        if (bucket) addEntry(bucket, entry, prices);
+    });
+    return Array.from(byDay.values());
+};
+
+/**
+ * Aggregates records by an arbitrary dimension (key, model, operation, project).
+ */
+export const summarizeUsageBy = (
+    entries: UsageEntry[],
+    prices: Record<string, ModelPrice>,
+    getGroup: (entry: UsageEntry) => string
+): { group: string; totals: UsageTotals }[] => {
+    const groups = new Map<string, UsageTotals>();
+    entries.forEach(entry => {
+        const group = getGroup(entry);
+        if (!groups.has(group)) groups.set(group, emptyTotals());
+        addEntry(groups.get(group)!, entry, prices);
+    });
+    return Array.from(groups.entries())
+        .map(([group, totals]) => ({ group, totals }))
+        .sort((a, b) => b.totals.totalTokens - a.totals.totalTokens);
+};
@@ -0,0 +1,238 @@
+import { AppSettings, Slide, UploadedImage, VideoClip, VideoJob } from '../types';
+import logger from './logger';
+import { generateVideo, generateSlideClip, checkVideoStatus, getVideoUri, downloadVideo } from './geminiService';
+import { cancellableDelay, isAbortError, CancelledError } from './llmProvider';
+import { stitchVideos } from '../utils/videoStitcher';
+
+export interface VideoJobResult {
+    url: string; // Object URL of the finished video
+    mimeType: string;
+}
+
+const STORAGE_KEY = 'videoJobs';
+const POLL_INTERVAL_MS = 10 * 1000;
+// Veo usually needs a few minutes per clip; anything older than this is considered lost.
+const JOB_TIMEOUT_MS = 60 * 60 * 1000;
+const MAX_STORED_JOBS = 20;
+
+const loadJobs = (): VideoJob[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+        console.error("Failed to parse stored video jobs:", e);
+        return [];
+    }
+};
+
+let jobs: VideoJob[] = loadJobs();
+const listeners = new Set<() => void>();
+// In-memory only: abort controllers of the jobs this tab is working on, and object URLs of finished videos.
+const controllers = new Map<string, AbortController>();
+const results = new Map<string, VideoJobResult>();
+
+const persistAndNotify = () => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    } catch (e) {
+        console.error("Failed to persist video jobs:", e);
+    }
+    listeners.forEach(listener => listener());
+};
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+const updateJob = (id: string, changes: Partial<VideoJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes, updatedAt: Date.now() } : job);
+    persistAndNotify();
+};
+
+const updateClip = (id: string, index: number, changes: Partial<VideoClip>) => {
+    const job = findJob(id);
+    if (!job) return;
+    updateJob(id, { clips: job.clips.map((clip, i) => i === index ? { ...clip, ...changes } : clip) });
+};
+
+const isFinished = (clip: VideoClip) => clip.status === 'done' || clip.status === 'failed';
+
+// Object URLs keep their Blob alive until revoked, so a replaced or removed result must release its URL.
+const releaseResult = (id: string) => {
+    const result = results.get(id);
+    if (result) URL.revokeObjectURL(result.url);
+    results.delete(id);
+};
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+export const getVideoJobs = (): VideoJob[] => jobs;
+
+/**
+ * Returns the finished video, or null if it has not been downloaded in this tab yet.
+ */
+export const getVideoJobResult = (id: string): VideoJobResult | null => results.get(id) ?? null;
+
+/**
+ * Registers a callback for any change of the job list. Returns the unsubscribe function.
+ */
+export const subscribeVideoJobs = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/**
+ * Downloads the finished clips in order and stitches them into a single video.
+ * Clips that failed are skipped; the job fails only if none of them produced a video.
+ */
+const finalizeJob = async (id: string, signal: AbortSignal) => {
+    const job = findJob(id);
+    if (!job) return;
+    const finished = job.clips.filter(clip => clip.status === 'done' && clip.videoUri);
+    if (finished.length === 0) {
+        updateJob(id, { status: 'failed', error: job.clips.find(clip => clip.error)?.error || 'Не создано ни одного клипа.' });
+        return;
+    }
+
+    updateJob(id, { status: 'downloading' });
+    const blobs: Blob[] = [];
+    for (const clip of finished) {
+        blobs.push(await downloadVideo(clip.videoUri!, signal));
+    }
+    const video = await stitchVideos(blobs, signal);
+    releaseResult(id);
+    results.set(id, { url: URL.createObjectURL(video), mimeType: video.type || 'video/mp4' });
+
+    const failed = job.clips.filter(clip => clip.status === 'failed');
+    updateJob(id, {
+        status: 'done',
+        error: failed.length > 0 ? `Пропущены клипы: ${failed.map(clip => clip.title).join(', ')}.` : undefined,
+    });
+    logger.logSuccess(`Video job ${id} finished: ${finished.length} clip(s), ${Math.round(video.size / 1024)} KB.`);
+};
+
+/**
+ * Polls every running clip of a job until all of them are finished, then downloads the result.
+ * Polling errors (network, rate limits) are retried on the next round until the job times out.
+ */
+const pollJob = async (id: string, signal: AbortSignal) => {
+    while (true) {
+        const job = findJob(id);
+        if (!job || job.status !== 'running') return;
+        if (job.clips.every(isFinished)) {
+            await finalizeJob(id, signal);
+            return;
+        }
+        if (Date.now() - job.createdAt > JOB_TIMEOUT_MS) {
+            updateJob(id, { status: 'failed', error: 'Видео не было готово в течение часа.' });
+            return;
+        }
+
+        for (const [index, clip] of job.clips.entries()) {
+            if (clip.status !== 'running' || !clip.operationName) continue;
+            try {
+                const operation = await checkVideoStatus(clip.operationName, signal);
+                if (!operation.done) continue;
+                const videoUri = getVideoUri(operation);
+                if (videoUri) {
+                    updateClip(id, index, { status: 'done', videoUri });
+                } else {
+                    updateClip(id, index, { status: 'failed', error: operation.error?.message || 'Модель не вернула видео.' });
+                }
+            } catch (e) {
+                if (e instanceof CancelledError || isAbortError(e)) throw e;
+                logger.logWarning(`Polling video clip "${clip.title}" failed, will retry: ${errorMessage(e)}`);
+            }
+        }
+
+        if (!findJob(id)?.clips.every(isFinished)) {
+            await cancellableDelay(POLL_INTERVAL_MS, signal);
+        }
+    }
+};
+
+const runJob = (id: string) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    pollJob(id, controller.signal)
+        .catch(e => {
+            if (e instanceof CancelledError || isAbortError(e)) return;
+            logger.logError(`Video job ${id} failed: ${errorMessage(e)}`);
+            updateJob(id, { status: 'failed', error: errorMessage(e) });
+        })
+        .finally(() => controllers.delete(id));
+};
+
+/**
+ * Creates a job, submits its operations and keeps polling them in the background.
+ * @param mode 'single' for one video of the whole script, 'perSlide' for one clip per slide stitched in order.
+ * @returns The new job's ID.
+ * @throws Whatever the submission of the first clip throws (e.g. AllKeysFailedError); later clips fail individually.
+ */
+export const startVideoJob = async (style: string, mode: VideoJob['mode'], slides: Slide[], images: UploadedImage[], settings: AppSettings): Promise<string> => {
+    const now = Date.now();
+    const clips: VideoClip[] = mode === 'perSlide'
+        ? slides.map((slide, i) => ({ slideIndex: i, title: slide.title || `Слайд ${i + 1}`, operationName: null, status: 'pending' }))
+        : [{ slideIndex: null, title: 'Вся презентация', operationName: null, status: 'pending' }];
+    const job: VideoJob = { id: crypto.randomUUID(), style, mode, createdAt: now, updatedAt: now, status: 'running', clips };
+    jobs = [job, ...jobs].slice(0, MAX_STORED_JOBS);
+    persistAndNotify();
+    logger.logInfo(`Starting video job ${job.id}: ${clips.length} clip(s), style "${style}".`);
+
+    for (const [index, clip] of clips.entries()) {
+        if (findJob(job.id)?.status !== 'running') return job.id;
+        try {
+            const operation = clip.slideIndex === null
+                ? await generateVideo(slides, images, style, settings)
+                : await generateSlideClip(slides[clip.slideIndex], images.find(img => img.id === slides[clip.slideIndex!].imageId), style, settings);
+            updateClip(job.id, index, { operationName: operation.name, status: 'running' });
+        } catch (e) {
+            updateClip(job.id, index, { status: 'failed', error: errorMessage(e) });
+            if (index === 0) {
+                updateJob(job.id, { status: 'failed', error: errorMessage(e) });
+                throw e;
+            }
+        }
+    }
+    runJob(job.id);
+    return job.id;
+};
+
+/**
+ * Continues the jobs that were running when the page was closed. Clips that had not been submitted
+ * yet cannot be recovered (their slides are gone) and are marked as failed.
+ */
+export const resumeVideoJobs = () => {
+    jobs.filter(job => (job.status === 'running' || job.status === 'downloading') && !controllers.has(job.id)).forEach(job => {
+        updateJob(job.id, {
+            status: 'running',
+            clips: job.clips.map(clip => clip.operationName ? clip : { ...clip, status: 'failed', error: 'Запрос не был отправлен до перезагрузки страницы.' }),
+        });
+        logger.logInfo(`Resuming video job ${job.id}.`);
+        runJob(job.id);
+    });
+};
+
+/**
+ * Downloads a finished job again, e.g. after a reload cleared the in-memory result.
+ * The download links expire after a while, after which this fails.
+ */
+export const reloadVideoJobResult = (id: string) => {
+    const job = findJob(id);
+    if (!job || job.status !== 'done' || controllers.has(id)) return;
+    updateJob(id, { status: 'running' });
+    runJob(id);
+};
+
+/**
+ * Stops polling a job. The operations themselves keep running on Google's side.
+ */
+export const cancelVideoJob = (id: string) => {
+    controllers.get(id)?.abort();
+    updateJob(id, { status: 'cancelled' });
+};
+
+export const removeVideoJob = (id: string) => {
+    controllers.get(id)?.abort();
+    releaseResult(id);
+    jobs = jobs.filter(job => job.id !== id);
+    persistAndNotify();
+};
@@ -10,6 +10,20 @@ export interface UploadedImage {
   query?: string; // For AI-generated images
   locationDescription?: string;
   description?: string; // Result of individual image analysis
+  analysisCached?: boolean; // The description came from the local analysis cache
+  generation?: ImageGenerationParams; // How an AI image was generated, so it can be regenerated
+  editedFrom?: string; // ID of the image this one was edited from with AI
+  editInstruction?: string;
+}
+
+export type ImageAspectRatio = '16:9' | '4:3' | '1:1' | '3:4' | '9:16';
+
+export interface ImageGenerationParams {
+  prompt: string;
+  stylePreset: string; // ID from IMAGE_STYLE_PRESETS
+  negativePrompt: string;
+  aspectRatio: ImageAspectRatio;
+  variantCount: number; // 1-4
 }
 
 export interface ExifData {
@@ -28,6 +42,7 @@ export interface ChatMessage {
     base64: string;
     mimeType: string;
   };
+  operations?: SlideOperationOutcome[]; // Storyboard edits the director made in reply to this message
 }
 
 export interface Slide {
@@ -44,12 +59,71 @@ export interface Slide {
   }
 }
 
+export type SlideOperationType = 'insertSlide' | 'deleteSlide' | 'moveSlide' | 'updateField' | 'swapImage';
+
+export type EditableSlideField = 'title' | 'script' | 'textOverlay' | 'podcastScript' | 'speaker';
+
+// A single storyboard edit returned by the chat director. Indices refer to the storyboard
+// as it is after all previous operations in the same answer have been applied.
+export type SlideOperation =
+  | { type: 'insertSlide'; index: number; slide: Slide }
+  | { type: 'deleteSlide'; index: number }
+  | { type: 'moveSlide'; index: number; toIndex: number }
+  | { type: 'updateField'; index: number; field: EditableSlideField; value: string | number }
+  | { type: 'swapImage'; index: number; imageId: string | null };
+
+export interface SlideOperationOutcome {
+  type: SlideOperationType | 'unknown';
+  description: string; // Human-readable summary shown in the chat
+  applied: boolean;
+  reason?: string; // Why the operation was rejected
+}
+
+export type VideoJobStatus = 'pending' | 'running' | 'downloading' | 'done' | 'failed' | 'cancelled';
+
+export interface VideoClip {
+  slideIndex: number | null; // null for a single video of the whole presentation
+  title: string;
+  operationName: string | null; // Long-running Veo operation; null until it has been submitted
+  status: VideoJobStatus;
+  videoUri?: string; // Download URI without the key
+  error?: string;
+}
+
+// Persisted in localStorage so polling resumes after a reload. The finished video itself is kept in memory only.
+export interface VideoJob {
+  id: string;
+  style: string;
+  mode: 'single' | 'perSlide';
+  createdAt: number;
+  updatedAt: number;
+  status: VideoJobStatus;
+  clips: VideoClip[];
+  error?: string;
+}
+
+export type AnalysisImageStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped'; // skipped: blocked by a content filter
+
 export interface AnalysisProgress {
   currentIndex: number;
   total: number;
   currentAction: string;
   matrixText: string;
   isSynthesizing?: boolean;
+  imageStatuses?: Record<string, AnalysisImageStatus>; // Keyed by image ID
+}
+
+// sequential: one request per image, carrying the growing story.
+// batched: several images per request, story carried between batches.
+// parallel: images described independently, then merged into a story in one request.
+export type AnalysisMode = 'sequential' | 'batched' | 'parallel';
+
+// Applied to a copy of each image before it is sent to a model; originals are kept for export.
+export interface ImagePreprocessSettings {
+    enabled: boolean;
+    maxLongEdge: number; // Pixels
+    format: 'image/jpeg' | 'image/webp';
+    quality: number;     // 0..1
 }
 
 export type ExportFormat = 'pdf' | 'pptx' | 'video' | 'gsheets' | 'link' | 'html';
@@ -74,8 +148,24 @@ export interface ApiKey {
   lastChecked?: number;
   resetTime?: number;
   isPinned?: boolean;
+  label?: string;            // Free-form name shown next to the masked key
   projectId?: string;
   lastError?: string;
+  weight?: number;           // Relative share for the 'weighted' strategy (default 1)
+  dailyTokenBudget?: number; // Key is skipped once this many tokens were used today
+  tokensUsedToday?: number;
+  usageDay?: string;         // Quota day (YYYY-MM-DD, US Pacific) the tokensUsedToday counter belongs to
+  lastUsedAt?: number;
+}
+
+export type KeySchedulingStrategy = 'pinned_first' | 'round_robin' | 'least_recently_used' | 'least_tokens_used' | 'weighted';
+
+// Which key a strategy picked for a request, shown in the key manager.
+export interface KeySelection {
+  timestamp: number;
+  maskedKey: string;
+  strategy: KeySchedulingStrategy;
+  model: string;
 }
 
 export type ModelHealthStatus = 'active' | 'exhausted' | 'invalid' | 'unknown';
@@ -94,6 +184,11 @@ export interface ApiCallLog {
   message: string;
 }
 
+export interface RateLimitQueueState {
+  depth: number;  // Requests currently waiting in the rate limiter
+  waitMs: number; // Estimated wait of the request that joined the queue last
+}
+
 // Details object for rich logging
 export interface LogDetails {
   maskedKey?: string;
@@ -105,6 +200,8 @@ export interface LogDetails {
       status?: string;
       message?: string;
   };
+  strategy?: KeySchedulingStrategy;
+  queue?: RateLimitQueueState;
   requestPayload?: any; // The body sent to the API
   apiResponse?: any;    // The raw JSON response or error object from the API
 }
@@ -158,6 +255,84 @@ export interface PexelsResponse {
     next_page?: string;
 }
 
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama' | 'fake';
+
+// Error the offline fake provider raises on every call, to exercise the error flows.
+export type FakeFailureMode = 'none' | 'all_keys_failed' | 'config' | 'rate_limit' | 'server' | 'safety';
+
+// The pipeline step that consumed tokens, used for usage accounting.
+export type UsageOperation = 'plan' | 'analysis' | 'storyboard' | 'chat' | 'music' | 'ssml' | 'image' | 'imageEdit' | 'video';
+
+// Model for one pipeline task. An empty `model` uses the default (geminiModel for text tasks);
+// an empty `fallbackModel` disables the fallback.
+export interface ModelRoute {
+    model: string;
+    fallbackModel: string;
+}
+
+export interface UsageEntry {
+    id?: number;
+    timestamp: number;
+    maskedKey: string; // Masked API key, or the provider id for keyless providers
+    projectId?: string;
+    model: string;
+    operation: UsageOperation;
+    promptTokens: number;
+    candidatesTokens: number;
+    totalTokens: number;
+}
+
+export interface AnalysisCacheEntry {
+    hash: string;             // SHA-256 of UploadedImage.base64
+    description: string;
+    updatedStory: string;
+    storyContextHash: string; // Hash of the story summary the analysis was based on
+    locationDescription?: string;
+    model: string;            // Provider-qualified, e.g. "gemini:gemini-2.5-flash"
+    promptVersion: string;    // Hash of the analysis prompt template (plus the batch template for batch results)
+    createdAt: number;
+}
+
+export type TrafficMode = 'off' | 'record' | 'replay';
+
+export interface TrafficEntry {
+    operation: string;   // e.g. "gemini:storyboard", "location", "pexels"
+    requestHash: string; // SHA-256 of the normalized method, URL and body
+    url: string;         // With API keys removed
+    method: string;
+    status: number;
+    contentType: string | null;
+    body: string;
+    recordedAt: number;
+}
+
+export interface TrafficFixture {
+    version: 1;
+    createdAt: number;
+    entries: TrafficEntry[];
+}
+
+// USD per 1M tokens
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type PromptTemplateId = 'initialPlan' | 'analyzeFrame' | 'analyzeBatch' | 'storyMerge' | 'storyboard' | 'chatEdit' | 'music' | 'ssml' | 'imageEdit' | 'video';
+
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, string>>;
+
+export interface PromptOverrides {
+    global: PromptTemplateOverrides;
+    projects: Record<string, PromptTemplateOverrides>; // Keyed by project name
+}
+
+// Client-side limits applied to every key for a given model. 0 disables a limit.
+export interface RateLimit {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+}
+
 export interface AppSettings {
     apiKeys: ApiKey[];
     voiceSettings: VoiceSettings;
@@ -165,6 +340,34 @@ export interface AppSettings {
     githubPat?: string | null;
     geminiModel: string;
     geminiEndpoint: string;
+    // Text/multimodal provider used by the director prompts. Gemini uses the key pool above.
+    llmProvider: LlmProviderId;
+    llmBaseUrl: string; // For 'openai' and 'ollama'
+    llmModel: string;   // For 'openai' and 'ollama'
+    llmApiKey?: string | null; // For 'openai'
+    fakeFailureMode: FakeFailureMode; // For 'fake'
+    modelPrices: Record<string, ModelPrice>;
+    keyStrategy: KeySchedulingStrategy;
+    rateLimits: Record<string, RateLimit>; // Keyed by model name
+    promptOverrides: PromptOverrides;
+    activeProject: string; // Selects project-level prompt overrides; empty for none
+    analysisMode: AnalysisMode;
+    analysisBatchSize: number;   // Images per request in 'batched' mode
+    analysisConcurrency: number; // Simultaneous requests in 'parallel' mode
+    imagePreprocessing: ImagePreprocessSettings;
+    modelRoutes: Record<UsageOperation, ModelRoute>;
+    // Only in stored copies (localStorage, Gist) while the vault is enabled: the secrets above, encrypted.
+    sealedSecrets?: EncryptedPayload;
 }
 
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error';
+
+// AES-GCM ciphertext with everything except the passphrase needed to decrypt it. Binary fields are base64.
+export interface EncryptedPayload {
+    salt: string;       // PBKDF2 salt
+    iterations: number; // PBKDF2 iterations
+    iv: string;
+    data: string;
+}
+
+export type VaultState = 'disabled' | 'locked' | 'unlocked';
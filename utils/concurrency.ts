@@ -0,0 +1,18 @@
+/**
+ * Runs `worker` over all items with at most `limit` calls in flight. Items are started in order.
+ * A failing worker does not stop the others; handle errors inside the worker.
+ * @param items The work items.
+ * @param limit Maximum number of concurrent workers (at least 1).
+ * @param worker Async function called once per item.
+ */
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> => {
+    let next = 0;
+    const runLane = async () => {
+        while (next < items.length) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    };
+    const laneCount = Math.min(items.length, Math.max(1, Math.floor(limit)));
+    await Promise.all(Array.from({ length: laneCount }, runLane));
+};
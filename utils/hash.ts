@@ -0,0 +1,7 @@
+/**
+ * Returns the hex SHA-256 digest of a string.
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,82 @@
+import { ImagePreprocessSettings } from '../types';
+
+export interface PreprocessedImage {
+    data: string; // Base64 without the data URL prefix
+    mimeType: string;
+    originalBytes: number;
+    processedBytes: number;
+}
+
+// Smaller targets make images useless for analysis; also guards against a half-typed setting.
+const MIN_LONG_EDGE = 256;
+
+export const base64ByteLength = (base64: string): number =>
+    Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+/**
+ * Returns the dimensions an image of the given size is sent with: scaled down to the configured long edge
+ * when preprocessing is on, unchanged otherwise.
+ */
+export const getTargetSize = (width: number, height: number, options: ImagePreprocessSettings | undefined): { width: number; height: number } => {
+    if (!options?.enabled) return { width, height };
+    const scale = Math.min(1, Math.max(MIN_LONG_EDGE, options.maxLongEdge) / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+/**
+ * Reads the pixel dimensions of an image after applying its EXIF orientation.
+ * @throws If the browser cannot decode the image.
+ */
+export const readImageSize = async (base64: string, mimeType: string): Promise<{ width: number; height: number }> => {
+    const bitmap = await createImageBitmap(base64ToBlob(base64, mimeType), { imageOrientation: 'from-image' });
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+};
+
+/**
+ * Applies the EXIF orientation, scales the image down to the configured long edge and re-encodes it.
+ * The original is returned unchanged when re-encoding would only make it bigger.
+ * @param base64 The original image bytes.
+ * @param mimeType The original MIME type.
+ * @param options Target size, format and quality.
+ * @throws If the browser cannot decode the image (e.g. HEIC outside Safari).
+ */
+export const preprocessImage = async (base64: string, mimeType: string, options: ImagePreprocessSettings): Promise<PreprocessedImage> => {
+    const originalBytes = base64ByteLength(base64);
+    const bitmap = await createImageBitmap(base64ToBlob(base64, mimeType), { imageOrientation: 'from-image' });
+    try {
+        const target = getTargetSize(bitmap.width, bitmap.height, options);
+        const scale = target.width / bitmap.width;
+        const canvas = document.createElement('canvas');
+        canvas.width = target.width;
+        canvas.height = target.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D is not available.');
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, options.format, options.quality));
+        if (!blob) throw new Error(`The browser cannot encode ${options.format}.`);
+        if (scale === 1 && blob.size >= originalBytes) {
+            return { data: base64, mimeType, originalBytes, processedBytes: originalBytes };
+        }
+        return { data: await blobToBase64(blob), mimeType: blob.type || options.format, originalBytes, processedBytes: blob.size };
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,11 @@
+import { UploadedImage } from '../types';
+
+/**
+ * Finds the other version of an image for the original/edited toggle: the source of an edited
+ * image, or the most recent AI edit of an original.
+ * @returns The counterpart, or undefined if the image was never edited.
+ */
+export const getImageCounterpart = (image: UploadedImage, images: UploadedImage[]): UploadedImage | undefined =>
+    image.editedFrom
+        ? images.find(img => img.id === image.editedFrom)
+        : [...images].reverse().find(img => img.editedFrom === image.id);
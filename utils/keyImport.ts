@@ -0,0 +1,108 @@
+import { ApiKey } from '../types';
+
+export interface KeyImportCandidate {
+    value: string;
+    label?: string;
+    projectId?: string;
+}
+
+export interface KeyImportResult {
+    candidates: KeyImportCandidate[];
+    maskedCount: number; // Entries of a masked export, which cannot be imported
+}
+
+const KEY_PATTERN = /AIza[0-9A-Za-z_-]{35}/g;
+const FULL_KEY_PATTERN = /^AIza[0-9A-Za-z_-]{35}$/;
+const EXPORT_FORMAT = 'presentation-master-api-keys';
+
+export const maskKeyValue = (key: string) => `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJsonEntries = (parsed: unknown): KeyImportResult | null => {
+    const entries: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.keys : undefined;
+    if (!Array.isArray(entries)) return null;
+
+    const candidates: KeyImportCandidate[] = [];
+    let maskedCount = 0;
+    for (const entry of entries as unknown[]) {
+        const fields = isRecord(entry) ? entry : {};
+        const value = typeof entry === 'string' ? entry.trim() : optionalString(fields.value);
+        if (!value) continue;
+        if (!FULL_KEY_PATTERN.test(value)) {
+            maskedCount++;
+            continue;
+        }
+        candidates.push({ value, label: optionalString(fields.label), projectId: optionalString(fields.projectId) });
+    }
+    return { candidates, maskedCount };
+};
+
+// `.env` lines name their key (GEMINI_KEY_2=AIza...), which makes a useful label.
+const ENV_ASSIGNMENT = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*[=:]\s*["']?(AIza[0-9A-Za-z_-]{35})["']?\s*(?:#.*)?$/;
+
+const parseText = (text: string): KeyImportResult => {
+    const candidates: KeyImportCandidate[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (line.trim().startsWith('#')) continue;
+        const assignment = line.match(ENV_ASSIGNMENT);
+        if (assignment) {
+            candidates.push({ value: assignment[2], label: assignment[1] });
+            continue;
+        }
+        for (const match of line.matchAll(KEY_PATTERN)) {
+            candidates.push({ value: match[0] });
+        }
+    }
+    return { candidates, maskedCount: 0 };
+};
+
+/**
+ * Finds Gemini API keys in pasted text, a `.env` file or a JSON export (ours, or a plain array).
+ * Keys are detected by their format; duplicates within the input are dropped, keeping the first one.
+ */
+export const parseKeyImport = (text: string): KeyImportResult => {
+    let result: KeyImportResult | null = null;
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+            result = parseJsonEntries(JSON.parse(trimmed));
+        } catch {
+            // Not valid JSON after all: fall back to scanning the text.
+        }
+    }
+    result ??= parseText(text);
+
+    const seen = new Set<string>();
+    return {
+        candidates: result.candidates.filter(candidate => !seen.has(candidate.value) && !!seen.add(candidate.value)),
+        maskedCount: result.maskedCount,
+    };
+};
+
+/**
+ * Serializes the key list with its status metadata for handing over to another person.
+ * @param masked Replaces every key with its first and last four characters; such an export documents a key set but cannot be imported.
+ */
+export const buildKeyExport = (keys: ApiKey[], masked: boolean): string => JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    masked,
+    keys: keys.map(key => ({
+        value: masked ? maskKeyValue(key.value) : key.value,
+        label: key.label,
+        projectId: key.projectId,
+        status: key.status,
+        lastChecked: key.lastChecked ? new Date(key.lastChecked).toISOString() : undefined,
+        resetTime: key.resetTime ? new Date(key.resetTime).toISOString() : undefined,
+        lastError: key.lastError,
+        isPinned: key.isPinned,
+        weight: key.weight,
+        dailyTokenBudget: key.dailyTokenBudget,
+    })),
+}, null, 2);
@@ -1,81 +1,47 @@
-import { Slide } from '../types';
-
-/**
- * Parses a markdown string from the AI chat into a structured array of Slides.
- * This is now a fallback method.
- * @param markdownText The text content of the AI's message containing the presentation plan.
- * @returns An array of Slide objects.
- */
-export const parseSlidesFromMarkdown = (markdownText: string): Slide[] => {
-  if (!markdownText || !markdownText.includes('### Слайд')) {
-    return [];
-  }
-
-  const slides: Slide[] = [];
-  const slideSections = markdownText.split(/(?=### Слайд)/g).filter(s => s.trim().startsWith('### Слайд'));
-
-  let speakerIndex = 0;
-
-  for (const section of slideSections) {
-    const titleMatch = section.match(/###\s*Слайд\s*\d+:\s*(.*)/);
-    const title = titleMatch ? titleMatch[1].trim() : 'Без названия';
-
-    const imageIdMatch = section.match(/\*\*Изображение:\**\s*Используем\s*кадр\s*с\s*ID:\s*([a-zA-Z0-9-]+)/i);
-    const imageId = imageIdMatch ? imageIdMatch[1] : null;
-
-    const script = section
-      .replace(/###\s*Слайд\s*\d+:\s*(.*)(\n|$)/, '')
-      .replace(/\*\*Изображение:\**\s*.*(\n|$)/i, '')
-      .replace(/\[SEARCH_IMAGE\]:.*(\n|$)/, '')
-      .replace(/\[GENERATE_IMAGE\]:.*(\n|$)/, '')
-      .trim();
-      
-    if (script) {
-        slides.push({
-            title,
-            script,
-            imageId,
-            speaker: speakerIndex,
-            needsImage: !imageId,
-        });
-    
-        speakerIndex = (speakerIndex + 1) % 2;
-    }
-  }
-
-  return slides;
-};
-
 /**
- * Parses a JSON string from the AI into a structured array of Slides.
- * This is the primary method for creating the storyboard.
- * @param jsonText The JSON string from the AI.
- * @returns An array of Slide objects.
+ * Extracts the objects that are already complete from a JSON array that is still being streamed.
+ * Objects that are not yet closed are ignored, so the result only grows as more text arrives.
+ * @param partialJsonText The JSON text received so far, e.g. `[{"title": "A", ...}, {"tit`.
+ * @param key When the array is a property of a streamed object, the name of that property.
+ * @returns The fully received array items, parsed but not validated.
  */
-export const parseSlidesFromJson = (jsonText: string): Slide[] => {
-    try {
-        const parsed = JSON.parse(jsonText);
-        if (!Array.isArray(parsed)) {
-            console.error("Parsed JSON is not an array:", parsed);
-            return [];
+export const parseCompleteObjectsFromPartialJson = (partialJsonText: string, key?: string): unknown[] => {
+    const objects: unknown[] = [];
+    const keyStart = key ? partialJsonText.indexOf(`"${key}"`) : 0;
+    if (keyStart === -1) return objects;
+    const arrayStart = partialJsonText.indexOf('[', keyStart);
+    if (arrayStart === -1) return objects;
+
+    let depth = 0;
+    let inString = false;
+    let isEscaped = false;
+    let objectStart = -1;
+
+    for (let i = arrayStart + 1; i < partialJsonText.length; i++) {
+        const char = partialJsonText[i];
+        if (inString) {
+            if (isEscaped) isEscaped = false;
+            else if (char === '\\') isEscaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            if (depth === 0 && char === '{') objectStart = i;
+            depth++;
+        } else if (char === '}' || char === ']') {
+            if (depth === 0) break; // End of the top-level array
+            depth--;
+            if (depth === 0 && char === '}' && objectStart !== -1) {
+                try {
+                    objects.push(JSON.parse(partialJsonText.slice(objectStart, i + 1)));
+                } catch (e) {
+                    // A malformed object is skipped; the final parse will report it.
+                }
+                objectStart = -1;
+            }
         }
-
-        return parsed.map(item => {
-            const slide: Slide = {
-                title: item.title || 'Без названия',
-                script: item.script || 'Нет текста.',
-                imageId: item.imageId || null,
-                textOverlay: item.textOverlay || '',
-                podcastScript: item.podcastScript || '',
-                needsImage: item.needsImage ?? !item.imageId, // Use nullish coalescing for better default
-                suggestions: item.suggestions || undefined,
-                speaker: item.speaker ?? 0, // Default to speaker 0 if not provided
-            };
-            return slide;
-        });
-    } catch (e) {
-        console.error("Failed to parse JSON for slides:", e, "Raw text:", jsonText);
-        // Fallback to markdown parser if JSON fails
-        return parseSlidesFromMarkdown(jsonText);
     }
+    return objects;
 };
@@ -0,0 +1,102 @@
+export type QuotaLimitKind = 'per_minute' | 'per_day' | 'unknown';
+
+export interface QuotaErrorInfo {
+    kind: QuotaLimitKind;
+    retryDelayMs?: number; // From google.rpc.RetryInfo
+    quotaId?: string;      // From google.rpc.QuotaFailure, e.g. "GenerateRequestsPerDayPerProjectPerModel-FreeTier"
+}
+
+const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+const QUOTA_FAILURE_TYPE = 'type.googleapis.com/google.rpc.QuotaFailure';
+
+/**
+ * Parses a protobuf Duration string such as "37s" or "0.5s" into milliseconds.
+ * @returns The delay in milliseconds, or undefined if the value cannot be parsed.
+ */
+export const parseRetryDelay = (delay: unknown): number | undefined => {
+    if (typeof delay !== 'string') return undefined;
+    const match = delay.trim().match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const classifyQuotaId = (quotaId: string): QuotaLimitKind => {
+    const lower = quotaId.toLowerCase();
+    if (lower.includes('perday') || lower.includes('per_day') || lower.includes('daily')) return 'per_day';
+    if (lower.includes('perminute') || lower.includes('per_minute')) return 'per_minute';
+    return 'unknown';
+};
+
+/**
+ * Extracts the quota scope and retry delay from a Google API error object
+ * (the `error` field of a 429 / RESOURCE_EXHAUSTED response).
+ * Daily quotas win over per-minute ones when both are violated.
+ * @param apiError The `error` object from the response body.
+ * @returns The parsed information; `kind` is 'unknown' when the details do not say.
+ */
+export const parseQuotaError = (apiError: any): QuotaErrorInfo => {
+    const details: any[] = Array.isArray(apiError?.details) ? apiError.details : [];
+    const info: QuotaErrorInfo = { kind: 'unknown' };
+
+    const retryInfo = details.find(d => d?.['@type'] === RETRY_INFO_TYPE);
+    if (retryInfo) info.retryDelayMs = parseRetryDelay(retryInfo.retryDelay);
+
+    const violations: any[] = details.filter(d => d?.['@type'] === QUOTA_FAILURE_TYPE).flatMap(d => d.violations || []);
+    for (const violation of violations) {
+        const quotaId: string = violation.quotaId || violation.quotaMetric || '';
+        const kind = classifyQuotaId(quotaId);
+        if (kind === 'per_day' || (kind === 'per_minute' && info.kind === 'unknown')) {
+            info.kind = kind;
+            info.quotaId = quotaId;
+        }
+    }
+
+    if (info.kind === 'unknown') {
+        const message = String(apiError?.message || '').toLowerCase();
+        if (message.includes('per day') || message.includes('daily')) info.kind = 'per_day';
+        else if (message.includes('per minute') || info.retryDelayMs !== undefined) info.kind = 'per_minute';
+    }
+    return info;
+};
+
+const PACIFIC_TIME_ZONE = 'America/Los_Angeles';
+
+/**
+ * Returns the timestamp of the next midnight in US Pacific time, when Gemini daily quotas reset.
+ * On DST switch days the result may be off by an hour, which only delays the retry slightly.
+ */
+export const getNextPacificMidnight = (now: number = Date.now()): number =>
+    getPacificDayStart(now) + 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the timestamp of the last midnight in US Pacific time, when the current Gemini quota day began.
+ */
+export const getPacificDayStart = (now: number = Date.now()): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: PACIFIC_TIME_ZONE,
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+        hourCycle: 'h23',
+    }).formatToParts(new Date(now));
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+    const msIntoPacificDay = ((get('hour') * 60 + get('minute')) * 60 + get('second')) * 1000 + (now % 1000);
+    return now - msIntoPacificDay;
+};
+
+/**
+ * Returns the Gemini quota day (YYYY-MM-DD in US Pacific time) a timestamp belongs to.
+ * Per-key daily token budgets roll over with it, in step with the real quotas.
+ */
+export const toQuotaDayKey = (timestamp: number): string =>
+    // The en-CA locale formats dates as YYYY-MM-DD.
+    new Intl.DateTimeFormat('en-CA', { timeZone: PACIFIC_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(timestamp));
+
+/**
+ * Exponential backoff with jitter, never shorter than the server-suggested delay.
+ * @param attempt Zero-based retry attempt.
+ * @param minDelayMs The delay requested by the server.
+ */
+export const computeBackoffDelay = (attempt: number, minDelayMs: number): number => {
+    const exponential = Math.max(minDelayMs, 1000) * Math.pow(2, attempt);
+    const jitter = Math.random() * exponential * 0.2;
+    return Math.round(exponential + jitter);
+};
@@ -0,0 +1,168 @@
+import { EditableSlideField, Slide, SlideOperationOutcome, SlideOperationType } from '../types';
+import { SlideValidationOptions, formatViolations, validateSlides } from './slideValidator';
+
+export interface SlideOperationsResult {
+    slides: Slide[];
+    outcomes: SlideOperationOutcome[];
+}
+
+type OperationResult = { slides: Slide[]; description: string } | { description: string; reason: string };
+
+const OPERATION_TYPES: SlideOperationType[] = ['insertSlide', 'deleteSlide', 'moveSlide', 'updateField', 'swapImage'];
+
+const FIELD_NAMES: Record<EditableSlideField, string> = {
+    title: 'заголовок',
+    script: 'текст диктора',
+    textOverlay: 'текст на слайде',
+    podcastScript: 'текст подкаста',
+    speaker: 'диктор',
+};
+
+const isIndex = (value: unknown, length: number): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+
+const quote = (text: string) => `«${text.length > 40 ? `${text.slice(0, 40)}…` : text}»`;
+
+const insertSlide = (slides: Slide[], op: any, options: SlideValidationOptions): OperationResult => {
+    const index = op.index ?? slides.length;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index > slides.length) {
+        return { description: 'Добавление слайда', reason: `Недопустимая позиция ${JSON.stringify(op.index)}.` };
+    }
+    // Images already placed on other slides must not be reused by the new one.
+    const usedImageIds = new Set(slides.map(slide => slide.imageId).filter(Boolean));
+    const { slides: validated, unrepaired } = validateSlides([op.slide], {
+        imageIds: options.imageIds.filter(id => !usedImageIds.has(id)),
+        speakerCount: options.speakerCount,
+    });
+    if (validated.length === 0) {
+        return { description: 'Добавление слайда', reason: formatViolations(unrepaired) };
+    }
+    const slide = validated[0];
+    return {
+        slides: [...slides.slice(0, index), slide, ...slides.slice(index)],
+        description: `Добавлен слайд ${index + 1} ${quote(slide.title)}`,
+    };
+};
+
+const deleteSlide = (slides: Slide[], op: any): OperationResult => {
+    if (!isIndex(op.index, slides.length)) {
+        return { description: 'Удаление слайда', reason: `Слайда с индексом ${JSON.stringify(op.index)} нет.` };
+    }
+    if (slides.length === 1) {
+        return { description: `Удаление слайда 1`, reason: 'Нельзя удалить единственный слайд.' };
+    }
+    return {
+        slides: slides.filter((_, i) => i !== op.index),
+        description: `Удален слайд ${op.index + 1} ${quote(slides[op.index].title)}`,
+    };
+};
+
+const moveSlide = (slides: Slide[], op: any): OperationResult => {
+    if (!isIndex(op.index, slides.length) || !isIndex(op.toIndex, slides.length)) {
+        return { description: 'Перемещение слайда', reason: `Недопустимые позиции ${JSON.stringify(op.index)} → ${JSON.stringify(op.toIndex)}.` };
+    }
+    if (op.index === op.toIndex) {
+        return { description: `Перемещение слайда ${op.index + 1}`, reason: 'Слайд уже находится на этой позиции.' };
+    }
+    const next = [...slides];
+    const [moved] = next.splice(op.index, 1);
+    next.splice(op.toIndex, 0, moved);
+    return { slides: next, description: `Слайд ${quote(moved.title)} перемещен с позиции ${op.index + 1} на ${op.toIndex + 1}` };
+};
+
+const updateField = (slides: Slide[], op: any, options: SlideValidationOptions): OperationResult => {
+    if (!isIndex(op.index, slides.length)) {
+        return { description: 'Изменение слайда', reason: `Слайда с индексом ${JSON.stringify(op.index)} нет.` };
+    }
+    const field = op.field as EditableSlideField;
+    if (!(field in FIELD_NAMES)) {
+        return { description: `Изменение слайда ${op.index + 1}`, reason: `Поле "${op.field}" нельзя изменять.` };
+    }
+    const description = `Слайд ${op.index + 1}: изменен ${FIELD_NAMES[field]}`;
+
+    let value: string | number;
+    if (field === 'speaker') {
+        value = typeof op.value === 'string' ? parseInt(op.value, 10) : op.value;
+        if (!isIndex(value, Math.max(1, options.speakerCount))) {
+            return { description, reason: `Недопустимый номер диктора ${JSON.stringify(op.value)}.` };
+        }
+    } else {
+        if (typeof op.value !== 'string') {
+            return { description, reason: 'Значение должно быть строкой.' };
+        }
+        value = op.value.trim();
+        if ((field === 'title' || field === 'script') && !value) {
+            return { description, reason: 'Заголовок и текст диктора не могут быть пустыми.' };
+        }
+    }
+    return {
+        slides: slides.map((slide, i) => i === op.index ? { ...slide, [field]: value } : slide),
+        description: field === 'speaker' ? `${description} на ${value}` : description,
+    };
+};
+
+const swapImage = (slides: Slide[], op: any, options: SlideValidationOptions): OperationResult => {
+    if (!isIndex(op.index, slides.length)) {
+        return { description: 'Замена изображения', reason: `Слайда с индексом ${JSON.stringify(op.index)} нет.` };
+    }
+    const imageId: string | null = op.imageId || null;
+    const withImage = (slide: Slide, id: string | null): Slide => ({ ...slide, imageId: id, needsImage: !id });
+
+    if (imageId === null) {
+        return {
+            slides: slides.map((slide, i) => i === op.index ? withImage(slide, null) : slide),
+            description: `Слайд ${op.index + 1}: изображение убрано`,
+        };
+    }
+    if (!options.imageIds.includes(imageId)) {
+        return { description: `Замена изображения на слайде ${op.index + 1}`, reason: `Изображение с ID "${imageId}" не существует.` };
+    }
+    // An image can only appear once, so taking it from another slide swaps the two images.
+    const otherIndex = slides.findIndex((slide, i) => i !== op.index && slide.imageId === imageId);
+    const previousImageId = slides[op.index].imageId;
+    return {
+        slides: slides.map((slide, i) => {
+            if (i === op.index) return withImage(slide, imageId);
+            if (i === otherIndex) return withImage(slide, previousImageId);
+            return slide;
+        }),
+        description: otherIndex === -1
+            ? `Слайд ${op.index + 1}: изображение заменено`
+            : `Изображения слайдов ${op.index + 1} и ${otherIndex + 1} поменялись местами`,
+    };
+};
+
+/**
+ * Applies the operations returned by the chat director to the storyboard, in order.
+ * Every operation is checked against the slides as they are at that point; invalid ones are
+ * skipped and reported instead of failing the whole answer.
+ * @param raw The parsed JSON returned by the model, expected to be an array of operations.
+ * @param slides The current storyboard. It is not mutated.
+ * @param options The valid image IDs and the number of available speakers.
+ * @returns The edited storyboard and an outcome for every operation.
+ */
+export const applySlideOperations = (raw: unknown, slides: Slide[], options: SlideValidationOptions): SlideOperationsResult => {
+    if (!Array.isArray(raw)) {
+        return { slides, outcomes: [{ type: 'unknown', description: 'Правки не распознаны', applied: false, reason: 'Ответ должен быть JSON-массивом операций.' }] };
+    }
+
+    let current = slides;
+    const outcomes = raw.map((op: any): SlideOperationOutcome => {
+        const type: SlideOperationType | 'unknown' = OPERATION_TYPES.includes(op?.type) ? op.type : 'unknown';
+        let result: OperationResult;
+        switch (type) {
+            case 'insertSlide': result = insertSlide(current, op, options); break;
+            case 'deleteSlide': result = deleteSlide(current, op); break;
+            case 'moveSlide': result = moveSlide(current, op); break;
+            case 'updateField': result = updateField(current, op, options); break;
+            case 'swapImage': result = swapImage(current, op, options); break;
+            default: result = { description: 'Неизвестная операция', reason: `Тип операции ${JSON.stringify(op?.type)} не поддерживается.` };
+        }
+        if ('reason' in result) {
+            return { type, description: result.description, applied: false, reason: result.reason };
+        }
+        current = result.slides;
+        return { type, description: result.description, applied: true };
+    });
+    return { slides: current, outcomes };
+};
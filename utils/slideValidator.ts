@@ -0,0 +1,115 @@
+import { Slide } from '../types';
+
+export interface SlideViolation {
+    slideIndex: number; // -1 for problems with the response as a whole
+    field: string;
+    message: string;
+    repaired: boolean;
+}
+
+export interface SlideValidationResult {
+    slides: Slide[];
+    violations: SlideViolation[];
+    // Violations that could not be fixed locally; the affected slides are dropped from `slides`.
+    unrepaired: SlideViolation[];
+}
+
+export interface SlideValidationOptions {
+    imageIds: string[];
+    speakerCount: number;
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Validates slides produced by the model against the `Slide` contract and the images that actually exist.
+ * Unknown image IDs, out-of-range speakers, duplicate image use and malformed optional fields are repaired;
+ * missing titles or scripts cannot be invented and are reported as unrepaired.
+ * @param raw The parsed JSON returned by the model.
+ * @param options The valid image IDs and the number of available speakers.
+ * @returns The repaired slides together with every violation found.
+ */
+export const validateSlides = (raw: unknown, options: SlideValidationOptions): SlideValidationResult => {
+    const violations: SlideViolation[] = [];
+    const report = (slideIndex: number, field: string, message: string, repaired: boolean) =>
+        violations.push({ slideIndex, field, message, repaired });
+
+    if (!Array.isArray(raw)) {
+        report(-1, 'root', 'Ответ должен быть JSON-массивом слайдов.', false);
+        return { slides: [], violations, unrepaired: violations };
+    }
+
+    const knownImageIds = new Set(options.imageIds);
+    const usedImageIds = new Set<string>();
+    const speakerCount = Math.max(1, options.speakerCount);
+    const slides: Slide[] = [];
+
+    raw.forEach((item: any, index) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            report(index, 'slide', 'Слайд должен быть объектом.', false);
+            return;
+        }
+
+        let isValid = true;
+        if (!isNonEmptyString(item.title)) {
+            report(index, 'title', 'Отсутствует заголовок (title).', false);
+            isValid = false;
+        }
+        if (!isNonEmptyString(item.script)) {
+            report(index, 'script', 'Отсутствует текст диктора (script).', false);
+            isValid = false;
+        }
+
+        let imageId: string | null = item.imageId ?? null;
+        if (imageId !== null && typeof imageId !== 'string') {
+            report(index, 'imageId', `imageId должен быть строкой или null, получено: ${JSON.stringify(imageId)}.`, true);
+            imageId = null;
+        } else if (imageId !== null && !knownImageIds.has(imageId)) {
+            report(index, 'imageId', `Изображение с ID "${imageId}" не существует.`, true);
+            imageId = null;
+        } else if (imageId !== null && usedImageIds.has(imageId)) {
+            report(index, 'imageId', `Изображение "${imageId}" уже используется в другом слайде.`, true);
+            imageId = null;
+        }
+        if (imageId) usedImageIds.add(imageId);
+
+        let speaker = item.speaker;
+        if (!Number.isInteger(speaker) || speaker < 0 || speaker >= speakerCount) {
+            const repairedSpeaker = slides.length % speakerCount;
+            report(index, 'speaker', `Недопустимый номер диктора ${JSON.stringify(speaker)}, заменен на ${repairedSpeaker}.`, true);
+            speaker = repairedSpeaker;
+        }
+
+        let suggestions = item.suggestions;
+        if (suggestions !== undefined && suggestions !== null && (typeof suggestions !== 'object' || Array.isArray(suggestions))) {
+            report(index, 'suggestions', 'suggestions должен быть объектом.', true);
+            suggestions = undefined;
+        }
+
+        if (!isValid) return;
+        slides.push({
+            title: item.title.trim(),
+            script: item.script.trim(),
+            imageId,
+            speaker,
+            textOverlay: typeof item.textOverlay === 'string' ? item.textOverlay : '',
+            podcastScript: typeof item.podcastScript === 'string' ? item.podcastScript : '',
+            needsImage: !imageId,
+            suggestions: suggestions || undefined,
+        });
+    });
+
+    if (raw.length > 0 && slides.length === 0) {
+        report(-1, 'root', 'Ни один слайд не прошел проверку.', false);
+    }
+
+    return { slides, violations, unrepaired: violations.filter(v => !v.repaired) };
+};
+
+/**
+ * Formats violations as a numbered list for the corrective prompt and the logs.
+ */
+export const formatViolations = (violations: SlideViolation[]): string =>
+    violations
+        .map((v, i) => `${i + 1}. ${v.slideIndex >= 0 ? `Слайд ${v.slideIndex + 1}` : 'Ответ'}, поле "${v.field}": ${v.message}`)
+        .join('\n');
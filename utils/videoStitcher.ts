@@ -0,0 +1,79 @@
+const FRAME_RATE = 30;
+
+const loadVideo = (video: HTMLVideoElement, src: string): Promise<void> =>
+    new Promise((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () => reject(new Error('Не удалось открыть видеоклип.'));
+        video.src = src;
+    });
+
+const abortError = () => new DOMException('Video stitching was aborted.', 'AbortError');
+
+const playOntoCanvas = (video: HTMLVideoElement, ctx: CanvasRenderingContext2D, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        let frame = 0;
+        const draw = () => {
+            ctx.drawImage(video, 0, 0, ctx.canvas.width, ctx.canvas.height);
+            frame = requestAnimationFrame(draw);
+        };
+        const onAbort = () => {
+            cancelAnimationFrame(frame);
+            video.pause();
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        video.onended = () => {
+            cancelAnimationFrame(frame);
+            ctx.drawImage(video, 0, 0, ctx.canvas.width, ctx.canvas.height);
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        };
+        video.play().then(draw, reject);
+    });
+
+/**
+ * Joins video clips into one WebM by playing them in order onto a canvas and recording it.
+ * Runs in real time (the result takes as long as the clips together) and drops audio, which
+ * Veo clips do not have. Keep the tab in the foreground: background tabs throttle frames.
+ * @param clips The clips in playback order; the first one sets the output resolution.
+ * @throws An AbortError DOMException if `signal` is aborted.
+ */
+export const stitchVideos = async (clips: Blob[], signal?: AbortSignal): Promise<Blob> => {
+    if (clips.length === 1) return clips[0];
+    if (signal?.aborted) throw abortError();
+
+    const urls = clips.map(clip => URL.createObjectURL(clip));
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    try {
+        await loadVideo(video, urls[0]);
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth || 1280;
+        canvas.height = video.videoHeight || 720;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D недоступен в этом браузере.');
+
+        const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+        if (!mimeType) throw new Error('Браузер не умеет записывать видео WebM.');
+        const recorder = new MediaRecorder(canvas.captureStream(FRAME_RATE), { mimeType });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+        const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+        recorder.start();
+        try {
+            for (let i = 0; i < urls.length; i++) {
+                if (i > 0) await loadVideo(video, urls[i]);
+                await playOntoCanvas(video, ctx, signal);
+            }
+        } finally {
+            recorder.stop();
+            await stopped;
+        }
+        return new Blob(chunks, { type: 'video/webm' });
+    } finally {
+        video.removeAttribute('src');
+        urls.forEach(url => URL.revokeObjectURL(url));
+    }
+};